@@ -0,0 +1,117 @@
+import { hc } from 'hono/client';
+import type { AppType } from '../../../../supabase/functions/api/index.ts';
+
+export { parseResponse } from 'hono/client';
+export type { InferRequestType, InferResponseType } from 'hono/client';
+
+// ============================================================================
+// Typed client for the `api` edge function
+// Built with Hono's `hc` on the API's own route types, so every route, its
+// parameters and its responses are typed from the routes themselves. Works
+// anywhere `fetch` does (browser, Node 18+, Deno).
+//
+//   const api = createApiClient({ baseUrl, token: () => session?.access_token });
+//   const { data, next_cursor } = await parseResponse(api.sprints.$get({ query: { teamId, status: 'active' } }));
+//   await api['work-items'][':id'].move.$post({ param: { id }, json: { sprint_id: null } });
+// ============================================================================
+
+/**
+ * Thrown for every non-2xx response.
+ * - `message` is the API's `error` string ("Invalid request" for body/query
+ *   validation failures, which the API reports as Zod issues).
+ * - `details` carries per-field / per-row problems where the API returns them.
+ * - `body` is the parsed response body, or the raw text if it was not JSON.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly details: unknown;
+  readonly body: unknown;
+
+  constructor(status: number, message: string, details?: unknown, body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+    this.body = body;
+  }
+
+  get isUnauthorized() { return this.status === 401; }
+  get isForbidden() { return this.status === 403; }
+  get isNotFound() { return this.status === 404; }
+  get isConflict() { return this.status === 409; }
+
+  /** Builds the error from a failed response's body. */
+  static fromBody(status: number, statusText: string, body: unknown): ApiError {
+    if (body && typeof body === 'object') {
+      const payload = body as { error?: unknown; details?: unknown; success?: unknown };
+
+      // `{ error, details? }` from the route handlers
+      if (typeof payload.error === 'string') {
+        return new ApiError(status, payload.error, payload.details, body);
+      }
+
+      // `{ success: false, error: ZodError }` from request validation
+      if (payload.success === false && payload.error && typeof payload.error === 'object') {
+        return new ApiError(status, 'Invalid request', (payload.error as { issues?: unknown }).issues, body);
+      }
+    }
+
+    return new ApiError(status, statusText || `Request failed with status ${status}`, undefined, body);
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type ApiClientOptions = {
+  /** Functions URL, without `/api`, e.g. "https://<ref>.supabase.co/functions/v1". */
+  baseUrl: string;
+  /**
+   * The user's access token, or a function returning it. A function is called
+   * before every request, so refreshed sessions are picked up.
+   */
+  token?: string | (() => MaybePromise<string | null | undefined>);
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+};
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    // Keep the raw text (e.g. a gateway error page)
+    return text;
+  }
+}
+
+/**
+ * Creates a client for the API's routes, e.g. `api.teams[':id'].$get(...)`.
+ * Requests resolve to the `Response` as usual (`parseResponse` reads the
+ * typed body); failed ones throw an `ApiError` instead.
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+
+  const client = hc<AppType>(options.baseUrl.replace(/\/+$/, ''), {
+    headers: async () => {
+      const token = typeof options.token === 'function' ? await options.token() : options.token;
+      return { ...options.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) };
+    },
+    fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
+      const response = await fetchImpl(input, init);
+      if (!response.ok) {
+        throw ApiError.fromBody(response.status, response.statusText, await readBody(response));
+      }
+      return response;
+    },
+  });
+
+  return client.api;
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
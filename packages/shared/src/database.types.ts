@@ -39,6 +39,59 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          account_id: string
+          created_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: string
+          team_ids: string[]
+          token_hash: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          account_id: string
+          created_at?: string | null
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          team_ids?: string[]
+          token_hash: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          account_id?: string
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          team_ids?: string[]
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_invitations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       account_members: {
         Row: {
           account_id: string
@@ -299,6 +352,61 @@ export type Database = {
           },
         ]
       }
+      sprint_carry_overs: {
+        Row: {
+          created_at: string | null
+          id: string
+          outcome: string
+          sprint_id: string
+          status: string
+          story_points: number
+          to_sprint_id: string | null
+          work_item_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          outcome: string
+          sprint_id: string
+          status: string
+          story_points?: number
+          to_sprint_id?: string | null
+          work_item_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          outcome?: string
+          sprint_id?: string
+          status?: string
+          story_points?: number
+          to_sprint_id?: string | null
+          work_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_carry_overs_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_carry_overs_to_sprint_id_fkey"
+            columns: ["to_sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_carry_overs_work_item_id_fkey"
+            columns: ["work_item_id"]
+            isOneToOne: false
+            referencedRelation: "work_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sprint_commitments: {
         Row: {
           committed_items: number | null
@@ -397,6 +505,7 @@ export type Database = {
           account_id: string
           created_at: string | null
           end_date: string
+          external_id: string | null
           goal: string | null
           id: string
           name: string
@@ -409,6 +518,7 @@ export type Database = {
           account_id: string
           created_at?: string | null
           end_date: string
+          external_id?: string | null
           goal?: string | null
           id?: string
           name: string
@@ -421,6 +531,7 @@ export type Database = {
           account_id?: string
           created_at?: string | null
           end_date?: string
+          external_id?: string | null
           goal?: string | null
           id?: string
           name?: string
@@ -488,38 +599,102 @@ export type Database = {
           },
         ]
       }
+      survey_assignments: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          id: string
+          occurrence_date: string
+          sprint_id: string
+          survey_id: string
+          trigger_event: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          occurrence_date: string
+          sprint_id: string
+          survey_id: string
+          trigger_event: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          id?: string
+          occurrence_date?: string
+          sprint_id?: string
+          survey_id?: string
+          trigger_event?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_assignments_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "survey_assignments_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       survey_questions: {
         Row: {
+          added_in_version: number
           id: string
           is_required: boolean | null
           metric_category: string | null
           options: Json | null
           order_index: number
           question_text: string
+          replaces_question_id: string | null
           response_type: string
+          retired_in_version: number | null
           survey_id: string | null
         }
         Insert: {
+          added_in_version?: number
           id?: string
           is_required?: boolean | null
           metric_category?: string | null
           options?: Json | null
           order_index?: number
           question_text: string
+          replaces_question_id?: string | null
           response_type: string
+          retired_in_version?: number | null
           survey_id?: string | null
         }
         Update: {
+          added_in_version?: number
           id?: string
           is_required?: boolean | null
           metric_category?: string | null
           options?: Json | null
           order_index?: number
           question_text?: string
+          replaces_question_id?: string | null
           response_type?: string
+          retired_in_version?: number | null
           survey_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "survey_questions_replaces_question_id_fkey"
+            columns: ["replaces_question_id"]
+            isOneToOne: false
+            referencedRelation: "survey_questions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "survey_questions_survey_id_fkey"
             columns: ["survey_id"]
@@ -534,24 +709,30 @@ export type Database = {
           created_at: string | null
           id: string
           is_confidential: boolean | null
+          occurrence_date: string | null
           sprint_id: string | null
           survey_id: string | null
+          updated_at: string | null
           user_id: string | null
         }
         Insert: {
           created_at?: string | null
           id?: string
           is_confidential?: boolean | null
+          occurrence_date?: string | null
           sprint_id?: string | null
           survey_id?: string | null
+          updated_at?: string | null
           user_id?: string | null
         }
         Update: {
           created_at?: string | null
           id?: string
           is_confidential?: boolean | null
+          occurrence_date?: string | null
           sprint_id?: string | null
           survey_id?: string | null
+          updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
@@ -573,34 +754,46 @@ export type Database = {
       }
       surveys: {
         Row: {
-          account_id: string
+          account_id: string | null
+          archived_at: string | null
           created_at: string | null
           description: string | null
           id: string
+          is_active: boolean
           is_system_template: boolean | null
+          source_template_id: string | null
           team_id: string | null
           title: string
           trigger_event: string | null
+          version: number
         }
         Insert: {
-          account_id: string
+          account_id?: string | null
+          archived_at?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
+          is_active?: boolean
           is_system_template?: boolean | null
+          source_template_id?: string | null
           team_id?: string | null
           title: string
           trigger_event?: string | null
+          version?: number
         }
         Update: {
-          account_id?: string
+          account_id?: string | null
+          archived_at?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
+          is_active?: boolean
           is_system_template?: boolean | null
+          source_template_id?: string | null
           team_id?: string | null
           title?: string
           trigger_event?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -610,6 +803,13 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "surveys_source_template_id_fkey"
+            columns: ["source_template_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "surveys_team_id_fkey"
             columns: ["team_id"]
@@ -619,6 +819,86 @@ export type Database = {
           },
         ]
       }
+      team_integration_secrets: {
+        Row: {
+          access_token: string | null
+          created_at: string | null
+          integration_id: string
+          webhook_secret: string
+        }
+        Insert: {
+          access_token?: string | null
+          created_at?: string | null
+          integration_id: string
+          webhook_secret: string
+        }
+        Update: {
+          access_token?: string | null
+          created_at?: string | null
+          integration_id?: string
+          webhook_secret?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_integration_secrets_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: true
+            referencedRelation: "team_integrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_integrations: {
+        Row: {
+          account_id: string
+          created_at: string | null
+          created_by: string | null
+          external_key: string
+          id: string
+          provider: string
+          settings: Json
+          team_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          account_id: string
+          created_at?: string | null
+          created_by?: string | null
+          external_key: string
+          id?: string
+          provider: string
+          settings?: Json
+          team_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          created_at?: string | null
+          created_by?: string | null
+          external_key?: string
+          id?: string
+          provider?: string
+          settings?: Json
+          team_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_integrations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_integrations_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           joined_at: string | null
@@ -757,10 +1037,10 @@ export type Database = {
           },
           {
             foreignKeyName: "work_items_project_id_fkey"
-            columns: ["project_id"]
+            columns: ["project_id", "team_id"]
             isOneToOne: false
             referencedRelation: "projects"
-            referencedColumns: ["id"]
+            referencedColumns: ["id", "team_id"]
           },
           {
             foreignKeyName: "work_items_sprint_id_fkey"
@@ -783,6 +1063,51 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_account_invitation: { Args: { p_token_hash: string }; Returns: Json }
+      activate_sprint: {
+        Args: { p_changes?: Json; p_sprint_id: string }
+        Returns: Json
+      }
+      assign_sprint_surveys: {
+        Args: {
+          p_occurrence_date: string
+          p_sprint_id: string
+          p_trigger_event: string
+        }
+        Returns: number
+      }
+      can_manage_account: { Args: { p_account_id: string }; Returns: boolean }
+      can_manage_survey: {
+        Args: { p_survey: Database["public"]["Tables"]["surveys"]["Row"] }
+        Returns: boolean
+      }
+      can_manage_team: { Args: { p_team_id: string }; Returns: boolean }
+      capture_sprint_snapshots: {
+        Args: { p_snapshot_date?: string }
+        Returns: number
+      }
+      clone_survey_template: {
+        Args: { p_team_id: string; p_template_id: string; p_title?: string }
+        Returns: Json
+      }
+      complete_sprint: {
+        Args: {
+          p_carry_over: string
+          p_drop_item_ids?: string[]
+          p_sprint_id: string
+          p_target_sprint_id?: string
+        }
+        Returns: Json
+      }
+      create_account: {
+        Args: {
+          p_name: string
+          p_slug?: string
+          p_team_description?: string
+          p_team_name?: string
+        }
+        Returns: Json
+      }
       create_survey_with_questions: {
         Args: {
           p_account_id: string
@@ -790,11 +1115,67 @@ export type Database = {
           p_questions?: Json
           p_team_id?: string
           p_title?: string
+          p_trigger_event?: string
         }
         Returns: Json
       }
+      create_team_integration: {
+        Args: {
+          p_access_token?: string
+          p_external_key: string
+          p_provider: string
+          p_settings?: Json
+          p_team_id: string
+          p_webhook_secret: string
+        }
+        Returns: Json
+      }
+      create_team_with_lead: {
+        Args: { p_account_id: string; p_description?: string; p_name: string }
+        Returns: Json
+      }
+      delete_survey: { Args: { p_survey_id: string }; Returns: Json }
+      delete_team: { Args: { p_team_id: string }; Returns: Json }
+      dispatch_survey_assignments: { Args: { p_date?: string }; Returns: Json }
+      get_sprint_pulse: { Args: { p_sprint_id: string }; Returns: Json }
+      get_sprint_text_answers: { Args: { p_sprint_id: string }; Returns: Json }
       is_account_member: { Args: { p_account_id: string }; Returns: boolean }
       is_team_member: { Args: { p_team_id: string }; Returns: boolean }
+      purge_deleted_teams: {
+        Args: { p_retention_days?: number }
+        Returns: number
+      }
+      resolve_account_user_ids: {
+        Args: { p_account_id: string; p_emails: string[] }
+        Returns: {
+          email: string
+          user_id: string
+        }[]
+      }
+      restore_team: { Args: { p_team_id: string }; Returns: Json }
+      revoke_account_invitation: { Args: { p_invitation_id: string }; Returns: Json }
+      sprint_pulse_threshold: { Args: { p_sprint_id: string }; Returns: number }
+      sprint_team_member_count: { Args: { p_sprint_id: string }; Returns: number }
+      submit_survey_response: {
+        Args: {
+          p_answers?: Json
+          p_is_confidential?: boolean
+          p_occurrence_date?: string
+          p_sprint_id: string
+          p_survey_id: string
+        }
+        Returns: Json
+      }
+      update_survey: {
+        Args: {
+          p_is_active?: boolean
+          p_questions?: Json
+          p_survey_id: string
+          p_title?: string
+          p_trigger_event?: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -14,12 +14,77 @@ const Timestamp = z.string().datetime({ offset: true });
  */
 const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format (YYYY-MM-DD)");
 
-export const TeamRoleEnum = z.enum(['member', 'lead']);
+// Optional "true" / "false" query parameter, e.g. includeDeleted
+const QueryFlag = z.enum(['true', 'false']).optional();
+
+export const AccountRoleEnum = z.enum(['owner', 'admin', 'member']);
+export const TeamRoleEnum = z.enum(['lead', 'contributor', 'stakeholder']);
 export const SprintStatusEnum = z.enum(['planned', 'active', 'completed']);
 export const WorkItemTypeEnum = z.enum(['story', 'bug', 'task', 'chore']);
 export const WorkItemStatusEnum = z.enum(['todo', 'in_progress', 'review', 'done']);
 export const WorkItemProviderEnum = z.enum(['native', 'github', 'jira']);
-export const QuestionTypeEnum = z.enum(['scale', 'text', 'boolean']);
+export const CarryOverEnum = z.enum(['next_planned', 'sprint', 'backlog']);
+export const IntegrationProviderEnum = WorkItemProviderEnum.exclude(['native']);
+export const ProjectStatusEnum = z.enum(['active', 'archived', 'completed']);
+export const QuestionTypeEnum = z.enum(['scale', 'text', 'single_select', 'emoji_mood']);
+export const ResponseTypeEnum = z.enum(['scale_1_5', 'text', 'single_select', 'emoji_mood']);
+export const SurveyTriggerEventEnum = z.enum(['daily', 'sprint_start', 'sprint_end', 'manual']);
+export const KudosCategoryEnum = z.enum(['unblock', 'support', 'technical_win', 'team_spirit']);
+export const MetricCategoryEnum = z.enum(['satisfaction', 'flow', 'friction', 'safety', 'workload', 'other']);
+
+/**
+ * Allowed sprint lifecycle transitions: planned → active → completed.
+ * A sprint never moves backwards.
+ */
+export const SprintStatusTransitions: Record<
+  z.infer<typeof SprintStatusEnum>,
+  z.infer<typeof SprintStatusEnum>[]
+> = {
+  planned: ['active'],
+  active: ['completed'],
+  completed: [],
+};
+
+/**
+ * Query parameters shared by every list endpoint.
+ * - `cursor` is opaque: pass back the previous page's `next_cursor`.
+ * - `status` is a comma-separated list, e.g. "planned,active".
+ * - `from` / `to` are inclusive dates on the endpoint's date column.
+ * - `sort` is a column name, prefixed with "-" for descending ("-end_date").
+ * Each endpoint decides which statuses and sort columns it accepts, and adds
+ * its own `filters` (e.g. `teamId`).
+ */
+export const listQuerySchema = <T extends z.ZodRawShape>(filters: T) => z.object({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  status: z.string().min(1)
+    .transform((value) => value.split(',').map((s) => s.trim()).filter(Boolean))
+    .optional(),
+  from: DateString.optional(),
+  to: DateString.optional(),
+  sort: z.string().regex(/^-?[a-z_]+$/, "Invalid sort (expected e.g. \"name\" or \"-created_at\")").optional(),
+}).extend(filters).refine((data) => !data.from || !data.to || data.from <= data.to, {
+  message: "from must be on or before to",
+  path: ["to"],
+});
+
+/** The list parameters of an endpoint without filters of its own. */
+export const ListQuerySchema = listQuerySchema({});
+
+/**
+ * Error body returned by every endpoint. `details` carries per-field or
+ * per-row problems where the endpoint reports them.
+ */
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  details: z.unknown().optional(),
+});
+
+/** Envelope returned by list endpoints. `next_cursor` is null on the last page. */
+export const listResponseSchema = <T extends z.ZodTypeAny>(item: T) => z.object({
+  data: z.array(item),
+  next_cursor: z.string().nullable(),
+});
 
 // ============================================================================
 // 2. IDENTITY (Profiles & Accounts)
@@ -37,11 +102,66 @@ export const AccountSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1),
   slug: z.string().min(1),
-  domain: z.string().nullable(),
   is_test_tenant: z.boolean(),
+  owner_user_id: z.string().uuid(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+});
+
+/**
+ * Onboarding payload: creates the account with the caller as owner.
+ * - `slug` is derived from `name` when omitted.
+ * - `team` optionally seeds a first team, led by the caller.
+ */
+export const CreateAccountSchema = z.object({
+  name: z.string().min(1, "Account name is required"),
+  slug: z.string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, digits and hyphens")
+    .max(63)
+    .optional(),
+  team: z.object({
+    name: z.string().min(1, "Team name is required"),
+    description: z.string().optional(),
+  }).optional(),
+});
+
+export const AccountInvitationSchema = z.object({
+  id: z.string().uuid(),
+  account_id: z.string().uuid(),
+  email: z.string().email(),
+  role: AccountRoleEnum.exclude(['owner']),
+  team_ids: z.array(z.string().uuid()),
+  expires_at: Timestamp,
+  invited_by: z.string().uuid().nullable(),
+  accepted_by: z.string().uuid().nullable(),
+  accepted_at: Timestamp.nullable(),
+  revoked_at: Timestamp.nullable(),
   created_at: Timestamp,
 });
 
+/** Query Schema for GET /invitations. */
+export const InvitationListQuerySchema = listQuerySchema({
+  accountId: z.string().uuid(),
+});
+
+/**
+ * Input Schema for inviting someone to an account (owners/admins only).
+ * - Ownership cannot be granted by invitation.
+ * - `team_ids` must belong to the account; the invitee joins them as contributor.
+ * - The token is generated by the API and returned once.
+ */
+export const CreateInvitationSchema = z.object({
+  account_id: z.string().uuid(),
+  email: z.string().email().transform((email) => email.toLowerCase()),
+  role: AccountRoleEnum.exclude(['owner']).default('member'),
+  team_ids: z.array(z.string().uuid()).default([]),
+  expires_in_days: z.number().int().min(1).max(30).default(7),
+});
+
+export const AcceptInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
 // ============================================================================
 // 3. ORGANIZATION (Teams)
 // ============================================================================
@@ -50,24 +170,52 @@ export const TeamSchema = z.object({
   id: z.string().uuid(),
   account_id: z.string().uuid(),
   name: z.string().min(1, "Team name is required"),
+  description: z.string().nullable(),
   deleted_at: Timestamp.nullable(), // Soft Delete support
   created_at: Timestamp,
   updated_at: Timestamp,
 });
 
 export const TeamMemberSchema = z.object({
-  id: z.string().uuid(),
   team_id: z.string().uuid(),
   user_id: z.string().uuid(),
   role: TeamRoleEnum,
+  title: z.string().nullable(), // e.g. "Backend Engineer"
   joined_at: Timestamp,
 });
 
+/** Adds an existing account member to a team. */
+export const AddTeamMemberSchema = z.object({
+  user_id: z.string().uuid(),
+  role: TeamRoleEnum.default('contributor'),
+  title: z.string().min(1).optional(),
+});
+
+export const UpdateTeamMemberSchema = z.object({
+  role: TeamRoleEnum.optional(),
+  title: z.string().min(1).nullable().optional(),
+}).refine((data) => data.role !== undefined || data.title !== undefined, {
+  message: "Provide a role or title to update",
+});
+
+/** Query Schema for GET /teams and GET /teams/mine. */
+export const TeamListQuerySchema = listQuerySchema({
+  includeDeleted: QueryFlag,
+});
+
+/** Query Schema for GET /teams/:id. */
+export const TeamQuerySchema = z.object({
+  includeDeleted: QueryFlag,
+});
+
 export const CreateTeamSchema = TeamSchema.omit({
   id: true,
+  description: true,
   deleted_at: true,
   created_at: true,
   updated_at: true,
+}).extend({
+  description: z.string().optional(),
 });
 
 // ============================================================================
@@ -86,10 +234,17 @@ export const SprintSchema = z.object({
   updated_at: Timestamp,
 });
 
+/** Query Schema for GET /sprints. */
+export const SprintListQuerySchema = listQuerySchema({
+  teamId: z.string().uuid(),
+});
+
 /**
  * Input Schema for creating a Sprint.
  * * @remarks
  * - Omits system fields (id, created_at).
+ * - `status` can only be 'planned' (the default); sprints are activated and
+ *   completed afterwards.
  * - Enforces end_date >= start_date.
  * - Use this for React Hook Form resolvers.
  */
@@ -97,6 +252,8 @@ export const CreateSprintSchema = SprintSchema.omit({
   id: true,
   created_at: true,
   updated_at: true
+}).extend({
+  status: z.literal('planned').default('planned'),
 }).refine((data) => data.end_date >= data.start_date, {
   message: "End date must be after start date",
   path: ["end_date"],
@@ -125,9 +282,106 @@ export const UpdateSprintSchema = SprintSchema.pick({
   }
 );
 
+/**
+ * One day of a sprint's burndown / burnup series.
+ * - Actual values are null for days after today and for days before the
+ *   first snapshot.
+ * - `is_filled` marks days with no snapshot, carried forward from the last one.
+ */
+export const BurndownPointSchema = z.object({
+  date: DateString,
+  ideal_points_remaining: z.number(),
+  points_remaining: z.number().int().nullable(),
+  points_completed: z.number().int().nullable(),
+  scope_points: z.number().int().nullable(), // Burnup: completed + remaining
+  items_remaining: z.number().int().nullable(),
+  items_completed: z.number().int().nullable(),
+  is_filled: z.boolean(),
+});
+
+/** Response shape for GET /sprints/:id/burndown. */
+export const SprintBurndownSchema = z.object({
+  sprint_id: z.string().uuid(),
+  start_date: DateString,
+  end_date: DateString,
+  committed_points: z.number().int().nonnegative(),
+  series: z.array(BurndownPointSchema),
+});
+
+/** Query Schema for GET /teams/:id/velocity. */
+export const VelocityQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(24).default(6), // Last N completed sprints
+});
+
+/**
+ * Velocity for one completed sprint.
+ * - `committed_points` comes from the frozen team commitment (null if the
+ *   sprint was never activated through the lifecycle).
+ * - `completed_points` counts items in the sprint completed between
+ *   `start_date` and `end_date`.
+ * - Rolling averages cover this sprint and the ones before it.
+ */
+export const SprintVelocitySchema = z.object({
+  sprint_id: z.string().uuid(),
+  name: z.string(),
+  start_date: DateString,
+  end_date: DateString,
+  committed_points: z.number().int().nonnegative().nullable(),
+  completed_points: z.number().int().nonnegative(),
+  completed_items: z.number().int().nonnegative(),
+  say_do_ratio: z.number().nonnegative().nullable(),
+  rolling_avg_completed_points: z.number().nonnegative(),
+  rolling_avg_say_do_ratio: z.number().nonnegative().nullable(),
+});
+
+/**
+ * Response shape for GET /teams/:id/velocity.
+ * `source` tells how `average_completed_points` was derived:
+ * - `native`: only sprints tracked in Sprint Pulse.
+ * - `historical`: no native sprints yet, imported `velocity_avg` only.
+ * - `blended`: too few native sprints, padded with the imported average.
+ */
+export const TeamVelocitySchema = z.object({
+  team_id: z.string().uuid(),
+  rolling_window: z.number().int().positive(),
+  source: z.enum(['native', 'historical', 'blended']),
+  average_completed_points: z.number().nonnegative().nullable(),
+  average_say_do_ratio: z.number().nonnegative().nullable(),
+  historical: z.object({
+    velocity_avg: z.number(),
+    metric_date: DateString,
+    import_batch_id: z.string().nullable(),
+  }).nullable(),
+  sprints: z.array(SprintVelocitySchema), // Oldest first
+});
+
+/**
+ * Query Schema for the daily snapshot job. Defaults to today (UTC); a
+ * snapshot records the board as it is now, so other dates are rejected.
+ */
+export const SnapshotJobQuerySchema = z.object({
+  date: DateString.optional(),
+}).refine((data) => !data.date || data.date === new Date().toISOString().slice(0, 10), {
+  message: "Snapshots can only be captured for today (UTC)",
+  path: ["date"],
+});
+
+/** Query Schema for the daily survey dispatch job. Defaults to today (UTC). */
+export const SurveyDispatchJobQuerySchema = z.object({
+  date: DateString.optional(),
+});
+
+/** Query Schema for the team purge job: how long deleted teams are kept. */
+export const PurgeTeamsJobQuerySchema = z.object({
+  retention_days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
 export const WorkItemSchema = z.object({
   id: z.string().uuid(),
-  sprint_id: z.string().uuid(),
+  team_id: z.string().uuid(),
+  sprint_id: z.string().uuid().nullable(), // Null = Backlog
+  assignee_user_id: z.string().uuid().nullable(),
+  project_id: z.string().uuid().nullable(),
   title: z.string().min(1, "Title is required"),
   description: z.string().nullable(),
   story_points: z.number().int().nonnegative().default(0),
@@ -144,6 +398,236 @@ export const WorkItemSchema = z.object({
   updated_at: Timestamp,
 });
 
+/** Query Schema for GET /work-items: one or more of sprint, team and assignee. */
+export const WorkItemListQuerySchema = listQuerySchema({
+  sprintId: z.string().uuid().optional(),
+  teamId: z.string().uuid().optional(),
+  assigneeId: z.string().uuid().optional(),
+});
+
+/**
+ * Input Schema for creating a Work Item.
+ * * @remarks
+ * - Either `team_id` or `sprint_id` is required. The route resolves the
+ *   missing `team_id` and the DB-only `account_id` from the sprint or team.
+ * - Omitting `sprint_id` places the item in the team backlog.
+ */
+export const CreateWorkItemSchema = WorkItemSchema.omit({
+  id: true,
+  completed_at: true,
+  created_at: true,
+  updated_at: true,
+}).extend({
+  team_id: z.string().uuid().optional(),
+  sprint_id: z.string().uuid().nullable().optional(),
+  assignee_user_id: z.string().uuid().nullable().optional(),
+  project_id: z.string().uuid().nullable().optional(),
+  description: z.string().nullable().optional(),
+  status: WorkItemStatusEnum.optional().default('todo'),
+  type: WorkItemTypeEnum.optional().default('story'),
+  provider: WorkItemProviderEnum.optional().default('native'),
+  external_id: z.string().nullable().optional(),
+  external_url: z.string().url().nullable().optional(),
+}).refine((data) => data.team_id || data.sprint_id, {
+  message: "Either team_id or sprint_id is required",
+  path: ["team_id"],
+});
+
+/**
+ * Input Schema for updating a Work Item.
+ * All fields are optional. Use the move endpoint to change `sprint_id`.
+ */
+export const UpdateWorkItemSchema = WorkItemSchema.pick({
+  title: true,
+  description: true,
+  story_points: true,
+  status: true,
+  type: true,
+  assignee_user_id: true,
+  project_id: true,
+}).extend({
+  story_points: z.number().int().nonnegative(), // No default on partial updates
+}).partial();
+
+/**
+ * Input Schema for moving a Work Item between sprints.
+ * `sprint_id: null` moves the item back to the team backlog.
+ */
+export const MoveWorkItemSchema = z.object({
+  sprint_id: z.string().uuid().nullable(),
+});
+
+/**
+ * Input Schema for POST /sprints/:id/complete.
+ * Unfinished work items go to `carry_over`:
+ * - `next_planned`: the team's earliest planned sprint.
+ * - `sprint`: the planned sprint given as `target_sprint_id`.
+ * - `backlog`: no sprint.
+ * Items in `drop_item_ids` are not moved and count as dropped.
+ */
+export const CompleteSprintSchema = z.object({
+  carry_over: CarryOverEnum,
+  target_sprint_id: z.string().uuid().optional(),
+  drop_item_ids: z.array(z.string().uuid()).default([]),
+}).refine((data) => (data.carry_over === 'sprint') === (data.target_sprint_id !== undefined), {
+  message: "target_sprint_id is required when carry_over is 'sprint', and only then",
+  path: ["target_sprint_id"],
+});
+
+/** One unfinished work item as it stood when its sprint was completed. */
+export const SprintCarryOverSchema = z.object({
+  id: z.string().uuid(),
+  sprint_id: z.string().uuid(),
+  work_item_id: z.string().uuid(),
+  to_sprint_id: z.string().uuid().nullable(), // Null = Backlog, or dropped
+  outcome: z.enum(['carried', 'dropped']),
+  story_points: z.number().int().nonnegative(),
+  status: WorkItemStatusEnum,
+  created_at: Timestamp,
+});
+
+/**
+ * Response shape for POST /sprints/:id/complete.
+ * `committed_points` is null if the sprint was never activated through the
+ * lifecycle; delivered counts items done at close-out.
+ */
+export const SprintCloseOutSchema = z.object({
+  sprint: SprintSchema,
+  carry_over: CarryOverEnum,
+  target_sprint_id: z.string().uuid().nullable(),
+  committed_points: z.number().int().nonnegative().nullable(),
+  delivered_points: z.number().int().nonnegative(),
+  delivered_items: z.number().int().nonnegative(),
+  carried_points: z.number().int().nonnegative(),
+  carried_items: z.number().int().nonnegative(),
+  dropped_points: z.number().int().nonnegative(),
+  dropped_items: z.number().int().nonnegative(),
+  carry_overs: z.array(SprintCarryOverSchema),
+});
+
+// ============================================================================
+// 4a. PROJECTS (Scope of Work spanning sprints)
+// ============================================================================
+
+export const ProjectSchema = z.object({
+  id: z.string().uuid(),
+  team_id: z.string().uuid(),
+  name: z.string().min(1, "Project name is required"),
+  description: z.string().nullable(),
+  status: ProjectStatusEnum,
+  created_at: Timestamp,
+  updated_at: Timestamp,
+});
+
+/** Query Schema for GET /projects. */
+export const ProjectListQuerySchema = listQuerySchema({
+  teamId: z.string().uuid(),
+  includeArchived: QueryFlag,
+});
+
+export const CreateProjectSchema = ProjectSchema.pick({
+  team_id: true,
+  name: true,
+}).extend({
+  description: z.string().nullable().optional(),
+});
+
+/**
+ * Input Schema for updating a Project.
+ * All fields are optional; setting `status` back to `active` un-archives it.
+ */
+export const UpdateProjectSchema = ProjectSchema.pick({
+  name: true,
+  description: true,
+  status: true,
+}).partial();
+
+const ProgressTotals = z.object({
+  points: z.number().int().nonnegative(),
+  items: z.number().int().nonnegative(),
+});
+
+const ProgressByStatus = z.object({
+  todo: ProgressTotals,
+  in_progress: ProgressTotals,
+  review: ProgressTotals,
+  done: ProgressTotals,
+});
+
+/**
+ * Response shape for GET /projects/:id/progress.
+ * `sprints` lists every sprint the project touched, oldest first, with
+ * backlog items (no sprint) last under `sprint_id: null`.
+ */
+export const ProjectProgressSchema = z.object({
+  project_id: z.string().uuid(),
+  total: ProgressTotals,
+  by_status: ProgressByStatus,
+  percent_complete: z.number().min(0).max(100).nullable(), // By points
+  sprints: z.array(z.object({
+    sprint_id: z.string().uuid().nullable(),
+    name: z.string().nullable(),
+    start_date: DateString.nullable(),
+    end_date: DateString.nullable(),
+    status: SprintStatusEnum.nullable(),
+    total: ProgressTotals,
+    by_status: ProgressByStatus,
+  })),
+});
+
+// ============================================================================
+// 4b. HISTORICAL METRICS (Onboarding Import)
+// ============================================================================
+
+// Soft metrics are 1–5 scores, matching the DB check constraints
+const SoftScore = z.coerce.number().int().min(1, "Must be between 1 and 5").max(5, "Must be between 1 and 5");
+const Count = z.coerce.number().int().nonnegative();
+
+/**
+ * One imported row, after column mapping. Blank cells arrive as null.
+ * - `email` identifies a team member; null = Team Level Metric.
+ * - `metric_date` defaults to the import date when omitted.
+ * - Unrecognized columns are kept in `custom_soft_metrics`.
+ */
+export const HistoricalMetricRowSchema = z.object({
+  email: z.string().email().nullable(),
+  metric_date: DateString.nullable(),
+  velocity_avg: z.coerce.number().nonnegative().nullable(),
+  last_sprint_points_completed: Count.nullable(),
+  last_sprint_items_completed: Count.nullable(),
+  last_sprint_points_incomplete: Count.nullable(),
+  last_sprint_items_incomplete: Count.nullable(),
+  satisfaction_score: SoftScore.nullable(),
+  flow_score: SoftScore.nullable(),
+  friction_score: SoftScore.nullable(),
+  safety_score: SoftScore.nullable(),
+  workload_balance_score: SoftScore.nullable(),
+  requirement_clarity_score: SoftScore.nullable(),
+  support_score: SoftScore.nullable(),
+  custom_soft_metrics: z.record(z.string(), z.string()),
+});
+
+/**
+ * Input Schema for importing historical metrics from a previous tool.
+ * - `csv`: `data` is the raw CSV export, first line is the header.
+ * - `json`: `data` is an array of flat objects keyed by column name.
+ * - `dry_run` validates and reports row errors without writing anything.
+ * - `import_batch_id` is generated when omitted; keep it to undo the import.
+ */
+export const ImportHistoricalMetricsSchema = z.discriminatedUnion('format', [
+  z.object({
+    format: z.literal('csv'),
+    data: z.string().min(1, "CSV data is required"),
+  }),
+  z.object({
+    format: z.literal('json'),
+    data: z.array(z.record(z.string(), z.unknown())).min(1, "At least one row is required"),
+  }),
+]).and(z.object({
+  import_batch_id: z.string().min(1).max(100).optional(),
+  dry_run: z.boolean().optional().default(false),
+}));
+
 // ============================================================================
 // 5. PULSE (Surveys)
 // ============================================================================
@@ -154,56 +638,267 @@ export const SurveySchema = z.object({
   title: z.string().min(1),
   is_active: z.boolean(),
   is_system_template: z.boolean(),
+  trigger_event: SurveyTriggerEventEnum.nullable(), // Null = manual
+  source_template_id: z.string().uuid().nullable(), // Template it was cloned from
+  version: z.number().int().positive(),
+  archived_at: Timestamp.nullable(),
   created_at: Timestamp,
 });
 
+/**
+ * API question types ↔ DB `survey_questions.response_type` values.
+ * The API only ever speaks `question_type`; routes translate at the boundary.
+ */
+export const QuestionTypeToResponseType: Record<
+  z.infer<typeof QuestionTypeEnum>,
+  z.infer<typeof ResponseTypeEnum>
+> = {
+  scale: 'scale_1_5',
+  text: 'text',
+  single_select: 'single_select',
+  emoji_mood: 'emoji_mood',
+};
+
+export const ResponseTypeToQuestionType = Object.fromEntries(
+  Object.entries(QuestionTypeToResponseType).map(([api, db]) => [db, api])
+) as Record<z.infer<typeof ResponseTypeEnum>, z.infer<typeof QuestionTypeEnum>>;
+
 export const SurveyQuestionSchema = z.object({
   id: z.string().uuid(),
   survey_id: z.string().uuid(),
   question_text: z.string().min(1),
   question_type: QuestionTypeEnum,
+  metric_category: MetricCategoryEnum.nullable(),
+  options: z.array(z.string()).nullable(), // single_select only
   order_index: z.number().int(),
   is_required: z.boolean(),
+  added_in_version: z.number().int().positive(),
+  retired_in_version: z.number().int().positive().nullable(), // Null = current
+  replaces_question_id: z.string().uuid().nullable(),
+});
+
+const SurveyQuestionInputSchema = z.object({
+  question_text: z.string().min(1),
+  question_type: QuestionTypeEnum,
+  metric_category: MetricCategoryEnum.nullable().optional(),
+  options: z.array(z.string().trim().min(1).max(200)).min(2).max(20).optional(),
+  order_index: z.number().int(),
+  is_required: z.boolean().optional().default(true),
+});
+
+function checkQuestionOptions(data: z.infer<typeof SurveyQuestionInputSchema>, ctx: z.RefinementCtx) {
+  if (data.question_type === 'single_select') {
+    if (!data.options) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "single_select questions need options", path: ["options"] });
+    } else if (new Set(data.options).size !== data.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Options must be unique", path: ["options"] });
+    }
+  } else if (data.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Only single_select questions take options", path: ["options"] });
+  }
+}
+
+/**
+ * Input Schema for one question of a new Survey.
+ * - `options` is required for `single_select` (2–20 distinct labels) and
+ *   rejected for every other type.
+ * - `metric_category` tags the question for the pulse category aggregates.
+ */
+export const CreateSurveyQuestionSchema = SurveyQuestionInputSchema.superRefine(checkQuestionOptions);
+
+/**
+ * One question of an edited Survey: an existing question when `id` is set,
+ * a new one otherwise. Always the complete definition, not a patch.
+ */
+export const UpdateSurveyQuestionSchema = SurveyQuestionInputSchema.extend({
+  id: z.string().uuid().optional(),
+}).superRefine(checkQuestionOptions);
+
+/** Query Schema for GET /surveys. */
+export const SurveyListQuerySchema = listQuerySchema({
+  accountId: z.string().uuid(),
+  includeArchived: QueryFlag,
+});
+
+/** Query Schema for GET /surveys/:id. */
+export const SurveyQuerySchema = z.object({
+  includeRetired: QueryFlag,
 });
 
 /**
  * Input Schema for creating a Survey with its questions.
  * - `account_id` is required by the DB.
- * - `team_id` is nullable (null = system-level / org-wide survey).
+ * - `team_id` must be a team of that account that the caller leads (or
+ *   administers the account of).
  * - `is_active` defaults to true.
+ * - `trigger_event` schedules the survey for every team member (daily, at
+ *   sprint start or end); `manual` or omitted means it is never assigned.
  * - `questions` is a nested array of question definitions (no id/survey_id needed).
  */
 export const CreateSurveySchema = z.object({
   account_id: z.string().uuid(),
-  team_id: z.string().uuid().nullable().optional(),
+  team_id: z.string().uuid(),
   title: z.string().min(1),
   is_active: z.boolean().optional().default(true),
-  questions: z.array(
+  trigger_event: SurveyTriggerEventEnum.optional(),
+  questions: z.array(CreateSurveyQuestionSchema),
+});
+
+/**
+ * Input Schema for editing a Survey.
+ * - `questions`, when given, is the complete new list: items with an `id`
+ *   keep (and may reorder or edit) that question, items without one are
+ *   added, and current questions left out are retired.
+ * - Answered questions are never changed in place. Editing one retires it and
+ *   adds a replacement in a new survey version, so past answers keep the
+ *   wording people saw.
+ */
+export const UpdateSurveySchema = z.object({
+  title: z.string().min(1).optional(),
+  is_active: z.boolean().optional(),
+  trigger_event: SurveyTriggerEventEnum.optional(),
+  questions: z.array(UpdateSurveyQuestionSchema).optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: "Provide at least one field to update",
+});
+
+/**
+ * Input Schema for cloning a system template into a team survey.
+ * `title` defaults to the template's title.
+ */
+export const CloneSurveySchema = z.object({
+  team_id: z.string().uuid(),
+  title: z.string().min(1).optional(),
+});
+
+/**
+ * Input Schema for submitting (or resubmitting) a response to a Survey.
+ * - `value` is a number for `scale` / `emoji_mood` questions and a string
+ *   for `text` / `single_select` questions. The route checks each value
+ *   against its question's type.
+ * - `null` answers are treated as skipped and fail only on required questions.
+ * - `occurrence_date` is the day a `daily` survey is answered for (default:
+ *   today); each day gets its own response. Other surveys take no date.
+ */
+export const SubmitSurveyResponseSchema = z.object({
+  sprint_id: z.string().uuid(),
+  occurrence_date: DateString.optional(),
+  is_confidential: z.boolean().optional().default(false),
+  answers: z.array(
     z.object({
-      question_text: z.string().min(1),
-      question_type: QuestionTypeEnum,
-      order_index: z.number().int(),
-      is_required: z.boolean().optional().default(true),
+      question_id: z.string().uuid(),
+      value: z.union([z.number().int(), z.string()]).nullable(),
     })
   ),
 });
 
+/**
+ * A member's response to a survey for a sprint (`survey_responses`).
+ * `occurrence_date` is the day a `daily` survey's response is for, and null
+ * for other surveys (which get one response per sprint).
+ */
 export const SurveyResponseSchema = z.object({
   id: z.string().uuid(),
+  survey_id: z.string().uuid(),
   sprint_id: z.string().uuid(),
   user_id: z.string().uuid(),
+  occurrence_date: DateString.nullable(),
   is_confidential: z.boolean(), // Match spec: 'is_confidential'
-  completed_at: Timestamp.nullable(),
   created_at: Timestamp,
+  updated_at: Timestamp,
 });
 
+/**
+ * One answer of a response (`survey_answers`). The value is stored in the
+ * column for its question's type:
+ * - `value_number`: 1–5 for `scale` / `emoji_mood` questions.
+ * - `value_text`: `text` answers and the chosen `single_select` option.
+ * - `value_json`: reserved for structured answers; currently always null.
+ */
 export const SurveyAnswerSchema = z.object({
   id: z.string().uuid(),
   response_id: z.string().uuid(),
   question_id: z.string().uuid(),
-  scale_value: z.number().int().min(1).max(5).nullable(),
-  text_value: z.string().nullable(),
-  boolean_value: z.boolean().nullable(),
+  value_number: z.number().int().min(1).max(5).nullable(),
+  value_text: z.string().nullable(),
+  value_json: z.unknown().nullable(),
+});
+
+/**
+ * A survey a team member is asked to answer for a sprint, created by the
+ * dispatcher from the survey's `trigger_event`. `completed_at` is set once
+ * they submit a response.
+ */
+export const SurveyAssignmentSchema = z.object({
+  id: z.string().uuid(),
+  survey_id: z.string().uuid(),
+  sprint_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  trigger_event: SurveyTriggerEventEnum.exclude(['manual']),
+  occurrence_date: DateString, // Sprint start/end date, or the day a daily survey is due
+  completed_at: Timestamp.nullable(),
+  created_at: Timestamp,
+});
+
+/** Response item for GET /me/pending-surveys. */
+export const PendingSurveySchema = SurveyAssignmentSchema.extend({
+  survey: SurveySchema.pick({ id: true, title: true, trigger_event: true }),
+  sprint: z.object({ id: z.string().uuid(), name: z.string(), team_id: z.string().uuid() }),
+});
+
+// ============================================================================
+// 5b. PULSE RESULTS (Aggregates)
+// ============================================================================
+
+/**
+ * Answer counts keyed by value: "1".."5" for scale / mood questions, the
+ * option label for single_select questions.
+ */
+const PulseDistributionSchema = z.record(z.string(), z.number().int().nonnegative());
+
+/**
+ * Aggregate for a single question.
+ * When `suppressed` is true, fewer than `min_respondents` people answered and
+ * `average` / `distribution` are withheld to protect anonymity.
+ */
+export const PulseQuestionResultSchema = z.object({
+  question_id: z.string().uuid(),
+  survey_id: z.string().uuid(),
+  question_text: z.string(),
+  response_type: z.string(),
+  metric_category: MetricCategoryEnum.nullable(),
+  respondent_count: z.number().int().nonnegative(),
+  suppressed: z.boolean(),
+  average: z.number().nullable(),
+  distribution: PulseDistributionSchema.nullable(),
+});
+
+/**
+ * Aggregate across every numeric (scale / mood) question tagged with the same
+ * `metric_category`.
+ */
+export const PulseCategoryResultSchema = z.object({
+  metric_category: MetricCategoryEnum,
+  respondent_count: z.number().int().nonnegative(),
+  suppressed: z.boolean(),
+  average: z.number().nullable(),
+  distribution: PulseDistributionSchema.nullable(),
+});
+
+/**
+ * Response shape for GET /sprints/:id/pulse.
+ * Never contains user ids, so confidential responses cannot be attributed.
+ */
+export const SprintPulseSchema = z.object({
+  sprint_id: z.string().uuid(),
+  min_respondents: z.number().int().positive(),
+  participation: z.object({
+    respondent_count: z.number().int().nonnegative(),
+    team_member_count: z.number().int().nonnegative(),
+    rate: z.number().min(0).max(1).nullable(),
+  }),
+  categories: z.array(PulseCategoryResultSchema),
+  questions: z.array(PulseQuestionResultSchema),
 });
 
 // ============================================================================
@@ -215,14 +910,172 @@ export const KudosSchema = z.object({
   team_id: z.string().uuid(),
   sprint_id: z.string().uuid().nullable(),
   sender_user_id: z.string().uuid(),
-  recipient_user_id: z.string().uuid(),
+  receiver_user_id: z.string().uuid(), // Matches DB column name
   message: z.string().min(1, "Message cannot be empty"),
+  category: KudosCategoryEnum.nullable(),
   created_at: Timestamp,
 });
 
-// Input Schema for giving Kudos
+/** Query Schema for GET /kudos: one or more of team, sprint and recipient. */
+export const KudosListQuerySchema = listQuerySchema({
+  teamId: z.string().uuid().optional(),
+  sprintId: z.string().uuid().optional(),
+  recipientId: z.string().uuid().optional(),
+});
+
+/**
+ * Input Schema for giving Kudos.
+ * - `sender_user_id` is never accepted from the body; the route takes it from the JWT.
+ * - `account_id` is required by the DB and resolved from the team.
+ */
 export const GiveKudosSchema = KudosSchema.omit({
   id: true,
   sender_user_id: true, // Inferred from Auth
   created_at: true
+}).extend({
+  sprint_id: z.string().uuid().nullable().optional(),
+  category: KudosCategoryEnum.nullable().optional(),
+});
+
+// ============================================================================
+// 6a. REPORTS (Sprint Retrospective)
+// ============================================================================
+
+export const SprintReportFormatEnum = z.enum(['json', 'md', 'html']);
+
+/** Query Schema for GET /sprints/:id/report. */
+export const SprintReportQuerySchema = z.object({
+  format: SprintReportFormatEnum.default('json'),
+});
+
+/**
+ * Pulse category average next to the team's previous completed sprint.
+ * `delta` is null unless both averages are shown.
+ */
+export const ReportPulseCategorySchema = z.object({
+  metric_category: MetricCategoryEnum,
+  respondent_count: z.number().int().nonnegative(),
+  suppressed: z.boolean(),
+  average: z.number().nullable(),
+  previous_average: z.number().nullable(),
+  delta: z.number().nullable(),
+});
+
+/**
+ * Free-text answers to one question, without respondents and sorted
+ * alphabetically so their order says nothing about who wrote them.
+ * Withheld (empty, `suppressed`) below the pulse respondent threshold.
+ */
+export const ReportTextAnswersSchema = z.object({
+  question_id: z.string().uuid(),
+  question_text: z.string(),
+  suppressed: z.boolean(),
+  answers: z.array(z.string()),
+});
+
+export const ReportKudosSchema = z.object({
+  id: z.string().uuid(),
+  sender_name: z.string(),
+  receiver_name: z.string(),
+  category: KudosCategoryEnum.nullable(),
+  message: z.string(),
+  created_at: Timestamp,
+});
+
+/**
+ * Response shape for GET /sprints/:id/report (format=json); the md and html
+ * formats render the same data. Contains no timestamps of its own, so the
+ * report of a completed sprint is identical on every request.
+ */
+export const SprintReportSchema = z.object({
+  sprint: SprintSchema.pick({
+    id: true,
+    team_id: true,
+    name: true,
+    goal: true,
+    status: true,
+    start_date: true,
+    end_date: true,
+  }),
+  team_name: z.string(),
+  previous_sprint: z.object({ id: z.string().uuid(), name: z.string() }).nullable(),
+  points: z.object({
+    committed_points: z.number().int().nonnegative().nullable(),
+    completed_points: z.number().int().nonnegative(),
+    completed_items: z.number().int().nonnegative(),
+    say_do_ratio: z.number().nonnegative().nullable(),
+    carried_points: z.number().int().nonnegative(),
+    dropped_points: z.number().int().nonnegative(),
+  }),
+  burndown: SprintBurndownSchema,
+  pulse: z.object({
+    min_respondents: z.number().int().positive(),
+    participation: SprintPulseSchema.shape.participation,
+    categories: z.array(ReportPulseCategorySchema),
+  }),
+  text_answers: z.array(ReportTextAnswersSchema),
+  kudos: z.array(ReportKudosSchema), // Oldest first
+});
+
+// ============================================================================
+// 7. INTEGRATIONS (External Sync)
+// ============================================================================
+
+export const TeamIntegrationSchema = z.object({
+  id: z.string().uuid(),
+  team_id: z.string().uuid(),
+  account_id: z.string().uuid(),
+  provider: IntegrationProviderEnum,
+  external_key: z.string().min(1), // GitHub "owner/repo" or Jira project key (lowercase)
+  settings: z.record(z.string(), z.unknown()),
+  created_by: z.string().uuid().nullable(),
+  created_at: Timestamp,
+  updated_at: Timestamp,
+});
+
+/**
+ * Field mapping for a Jira integration, stored in `team_integrations.settings`.
+ * - `status_map` / `type_map` keys are Jira names, matched case-insensitively.
+ * - Statuses missing from `status_map` fall back to Jira's status category
+ *   (To Do → todo, In Progress → in_progress, Done → done).
+ * - The custom field ids default to Jira Cloud's usual ones.
+ */
+export const JiraIntegrationSettingsSchema = z.object({
+  story_points_field: z.string().min(1).default('customfield_10016'),
+  sprint_field: z.string().min(1).default('customfield_10020'),
+  status_map: z.record(z.string(), WorkItemStatusEnum).default({}),
+  type_map: z.record(z.string(), WorkItemTypeEnum).default({}),
+});
+
+/** Query Schema for GET /integrations. */
+export const IntegrationListQuerySchema = listQuerySchema({
+  teamId: z.string().uuid(),
+});
+
+/**
+ * Input Schema for connecting a team to an external tracker.
+ * - `access_token` is only needed for backfills and is never returned.
+ * - `settings` is provider-specific (see `JiraIntegrationSettingsSchema`).
+ * - The webhook signing secret is generated by the API and returned once.
+ */
+export const CreateIntegrationSchema = z.object({
+  team_id: z.string().uuid(),
+  provider: IntegrationProviderEnum,
+  external_key: z.string().min(1),
+  access_token: z.string().min(1).optional(),
+  settings: z.record(z.string(), z.unknown()).optional(),
+}).refine(
+  (data) => data.provider !== 'github' || /^[\w.-]+\/[\w.-]+$/.test(data.external_key),
+  {
+    message: 'GitHub integrations need an "owner/repo" external_key',
+    path: ["external_key"],
+  }
+);
+
+/**
+ * Input Schema for updating an integration's mapping config.
+ * `settings` replaces the stored settings and is validated per provider.
+ */
+export const UpdateIntegrationSchema = z.object({
+  settings: z.record(z.string(), z.unknown()),
 });
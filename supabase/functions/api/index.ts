@@ -1,12 +1,80 @@
 import { Hono } from 'hono';
+import { swaggerUI } from '@hono/swagger-ui';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import accounts from './routes/accounts.ts';
+import me from './routes/me.ts';
+import invitations from './routes/invitations.ts';
 import teams from './routes/teams.ts';
 import sprints from './routes/sprints.ts';
 import surveys from './routes/surveys.ts';
+import workItems from './routes/work-items.ts';
+import kudos from './routes/kudos.ts';
+import projects from './routes/projects.ts';
+import jobs from './routes/jobs.ts';
+import historicalMetrics from './routes/historical-metrics.ts';
+import teamMembers from './routes/team-members.ts';
+import integrations from './routes/integrations.ts';
+import { ROUTE_DOCS } from './openapi.ts';
+import { buildOpenApiDocument } from './lib/openapi.ts';
 
 const app = new Hono().basePath('/api');
 
-app.route('/teams', teams);
-app.route('/sprints', sprints);
-app.route('/surveys', surveys);
+const API_VERSION = '1.0.0';
+
+// JWT verification is off for this function (see config.toml) so webhooks and
+// cron jobs can reach their routes; those authenticate with their own secrets.
+// Every other route gets the check the gateway would have done: the bearer
+// token must be a valid JWT for this project. The API docs are public.
+const PUBLIC_PATHS = ['/api/jobs/', '/api/integrations/webhooks/', '/api/openapi.json', '/api/docs'];
+
+app.use('*', async (c, next) => {
+    if (PUBLIC_PATHS.some((path) => c.req.path.startsWith(path))) {
+        return next();
+    }
+
+    const token = c.req.header('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!token) {
+        return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient<Database>(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_ANON_KEY')!
+    );
+
+    // Malformed tokens (e.g. without an exp claim) throw instead of returning an error
+    const { data, error } = await supabase.auth.getClaims(token)
+        .catch((err: Error) => ({ data: null, error: err }));
+    if (error || !data) {
+        return c.json({ error: 'Unauthorized' }, 401);
+    }
+
+    await next();
+});
+
+const routes = app
+    .route('/accounts', accounts)
+    .route('/me', me)
+    .route('/invitations', invitations)
+    .route('/teams', teams)
+    .route('/teams/:teamId/members', teamMembers)
+    .route('/teams/:teamId/historical-metrics', historicalMetrics)
+    .route('/sprints', sprints)
+    .route('/surveys', surveys)
+    .route('/work-items', workItems)
+    .route('/kudos', kudos)
+    .route('/projects', projects)
+    .route('/integrations', integrations)
+    .route('/jobs', jobs);
+
+// Registered last so the document sees every route above
+app.get('/openapi.json', (c) => {
+    return c.json(buildOpenApiDocument(app.routes, ROUTE_DOCS, { basePath: '/api', version: API_VERSION }));
+});
+app.get('/docs', swaggerUI({ url: 'openapi.json' }));
 
 Deno.serve(app.fetch);
+
+/** The API's routes, for the typed client in `@sprintpulse/shared/client`. */
+export type AppType = typeof routes;
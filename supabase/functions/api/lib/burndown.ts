@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { SprintBurndownSchema } from '@sprintpulse/shared/schemas/index.ts';
+
+type Snapshot = Database['public']['Tables']['sprint_snapshots']['Row'];
+type BurndownPoint = z.infer<typeof SprintBurndownSchema>['series'][number];
+
+export type SprintBurndown = z.infer<typeof SprintBurndownSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every "YYYY-MM-DD" from `start` to `end`, inclusive (UTC). */
+export function eachDate(start: string, end: string): string[] {
+    const dates: string[] = [];
+    for (
+        let t = Date.parse(`${start}T00:00:00Z`);
+        t <= Date.parse(`${end}T00:00:00Z`);
+        t += DAY_MS
+    ) {
+        dates.push(new Date(t).toISOString().slice(0, 10));
+    }
+    return dates;
+}
+
+/**
+ * Points the sprint started with: the frozen team commitment, or for sprints
+ * activated before commitments were frozen, the scope on the first snapshot.
+ */
+export function resolveCommittedPoints(
+    commitment: { committed_points: number | null } | null,
+    snapshots: Snapshot[],
+): number {
+    const first = snapshots[0];
+    return commitment?.committed_points
+        ?? (first ? (first.points_completed ?? 0) + (first.points_remaining ?? 0) : 0);
+}
+
+/**
+ * Builds the daily burndown / burnup series for a sprint from its team-level
+ * snapshots (`user_id` NULL).
+ *
+ * The ideal line runs linearly from `committedPoints` on `start_date` to zero
+ * on `end_date`. Days without a snapshot carry the previous day forward;
+ * days after `today` have no actuals.
+ */
+export function buildBurndown(
+    sprint: { id: string; start_date: string; end_date: string },
+    snapshots: Snapshot[],
+    committedPoints: number,
+    today: string,
+): SprintBurndown {
+    const byDate = new Map(
+        snapshots
+            .filter((s) => s.user_id === null && s.snapshot_date !== null)
+            .map((s) => [s.snapshot_date!, s])
+    );
+
+    const dates = eachDate(sprint.start_date, sprint.end_date);
+    const steps = Math.max(dates.length - 1, 1);
+    let last: Snapshot | undefined;
+
+    const series = dates.map((date, i): BurndownPoint => {
+        const ideal = Math.round(committedPoints * (1 - i / steps) * 100) / 100;
+        const snapshot = byDate.get(date);
+        if (snapshot) last = snapshot;
+
+        const actual = date <= today ? snapshot ?? last : undefined;
+        const pointsCompleted = actual ? actual.points_completed ?? 0 : null;
+        const pointsRemaining = actual ? actual.points_remaining ?? 0 : null;
+
+        return {
+            date,
+            ideal_points_remaining: ideal,
+            points_remaining: pointsRemaining,
+            points_completed: pointsCompleted,
+            scope_points: actual ? pointsCompleted! + pointsRemaining! : null,
+            items_remaining: actual ? actual.items_remaining ?? 0 : null,
+            items_completed: actual ? actual.items_completed ?? 0 : null,
+            is_filled: actual !== undefined && snapshot === undefined,
+        };
+    });
+
+    return {
+        sprint_id: sprint.id,
+        start_date: sprint.start_date,
+        end_date: sprint.end_date,
+        committed_points: committedPoints,
+        series,
+    };
+}
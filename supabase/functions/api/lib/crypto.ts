@@ -0,0 +1,51 @@
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+    return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Hex-encoded HMAC-SHA256 of `payload`, as used by webhook signatures. */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign'],
+    );
+    return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+/** Hex-encoded SHA-256 digest, e.g. for storing tokens without the token. */
+export async function sha256Hex(value: string): Promise<string> {
+    return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+/** Constant-time string comparison, so signature checks don't leak timing. */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+/** Hex-encoded random token with `bytes` bytes of entropy. */
+export function randomToken(bytes = 32): string {
+    return toHex(crypto.getRandomValues(new Uint8Array(bytes)).buffer);
+}
+
+/**
+ * Verifies a `sha256=<hex>` signature header (GitHub `X-Hub-Signature-256`,
+ * Jira `X-Hub-Signature`) against the raw request body.
+ */
+export async function verifySignature(
+    secret: string,
+    rawBody: string,
+    header: string | undefined,
+): Promise<boolean> {
+    if (!header?.startsWith('sha256=')) return false;
+    const expected = await hmacSha256Hex(secret, rawBody);
+    return timingSafeEqual(header.slice('sha256='.length), expected);
+}
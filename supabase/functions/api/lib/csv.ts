@@ -0,0 +1,55 @@
+/**
+ * Parses RFC 4180 CSV into records keyed by the header row.
+ * Handles quoted fields (with embedded commas, quotes and newlines), CRLF
+ * line endings and a leading BOM. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+    if (!header) return [];
+
+    const keys = header.map((key) => key.trim());
+
+    return body.map((cells) =>
+        Object.fromEntries(keys.map((key, i) => [key, (cells[i] ?? '').trim()]))
+    );
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { WorkItemStatusEnum, WorkItemTypeEnum } from '@sprintpulse/shared/schemas/index.ts';
+
+type WorkItemStatus = z.infer<typeof WorkItemStatusEnum>;
+type WorkItemType = z.infer<typeof WorkItemTypeEnum>;
+type Integration = Pick<Database['public']['Tables']['team_integrations']['Row'], 'team_id' | 'account_id'>;
+
+/**
+ * The subset of a GitHub issue / pull request we read. Webhook payloads
+ * (`issue`, `pull_request`) and the REST issues list share this shape; issues
+ * returned by the list endpoint carry a `pull_request` key when they are PRs.
+ */
+export type GitHubIssue = {
+    number: number;
+    title: string;
+    body: string | null;
+    html_url: string;
+    state: 'open' | 'closed';
+    draft?: boolean;
+    closed_at: string | null;
+    labels: (string | { name?: string })[];
+    pull_request?: unknown;
+};
+
+/** Fields of a `work_items` shadow record derived from GitHub. */
+export type GitHubWorkItemFields = {
+    provider: 'github';
+    external_id: string;
+    external_url: string;
+    title: string;
+    description: string | null;
+    type: WorkItemType;
+    status: WorkItemStatus;
+    story_points?: number;
+    completed_at: string | null;
+};
+
+const TYPE_LABELS: Record<string, WorkItemType> = {
+    bug: 'bug',
+    defect: 'bug',
+    chore: 'chore',
+    maintenance: 'chore',
+    task: 'task',
+    story: 'story',
+    feature: 'story',
+    enhancement: 'story',
+};
+
+const STATUS_LABELS: Record<string, WorkItemStatus> = {
+    'in progress': 'in_progress',
+    'in-progress': 'in_progress',
+    wip: 'in_progress',
+    review: 'review',
+    'in review': 'review',
+    'needs review': 'review',
+};
+
+// "estimate: 3", "points/5", "sp 8", "story points: 13"
+const ESTIMATE_LABEL = /^(?:estimate|points?|sp|story[ _-]?points?)\s*[:=/ -]?\s*(\d+)$/i;
+
+/** Label names, lowercased, with "type:" / "kind/" / "status:" prefixes removed. */
+function labelNames(issue: GitHubIssue): string[] {
+    return issue.labels
+        .map((label) => (typeof label === 'string' ? label : label.name ?? ''))
+        .map((name) => name.trim().toLowerCase().replace(/^(?:type|kind|status)\s*[:/]\s*/, ''))
+        .filter((name) => name !== '');
+}
+
+/** `external_id` for a GitHub issue or PR, e.g. "octo-org/octo-repo#42". */
+export function gitHubExternalId(repository: string, number: number): string {
+    return `${repository.toLowerCase()}#${number}`;
+}
+
+/**
+ * Maps a GitHub issue or pull request onto work item fields:
+ * - Labels choose the `type` (default `story`; PRs default to `task`).
+ * - An estimate label ("estimate: 3", "points/5", "sp 8") sets `story_points`.
+ * - Closed → `done`. Open PRs are `review` (`in_progress` while draft); open
+ *   issues are `todo` unless a status label says otherwise.
+ */
+export function mapGitHubIssue(repository: string, issue: GitHubIssue): GitHubWorkItemFields {
+    const labels = labelNames(issue);
+    const isPullRequest = issue.pull_request !== undefined;
+
+    const type = labels.map((l) => TYPE_LABELS[l]).find(Boolean) ?? (isPullRequest ? 'task' : 'story');
+
+    let status: WorkItemStatus;
+    if (issue.state === 'closed') {
+        status = 'done';
+    } else if (isPullRequest) {
+        status = issue.draft ? 'in_progress' : 'review';
+    } else {
+        status = labels.map((l) => STATUS_LABELS[l]).find(Boolean) ?? 'todo';
+    }
+
+    const estimate = labels.map((l) => ESTIMATE_LABEL.exec(l)).find(Boolean);
+
+    return {
+        provider: 'github',
+        external_id: gitHubExternalId(repository, issue.number),
+        external_url: issue.html_url,
+        title: issue.title,
+        description: issue.body,
+        type,
+        status,
+        // Only overwrite points when GitHub has an opinion
+        ...(estimate ? { story_points: Number(estimate[1]) } : {}),
+        completed_at: status === 'done' ? issue.closed_at : null,
+    };
+}
+
+/**
+ * Upserts shadow records by (team_id, provider, external_id). Rows without
+ * an estimate are written separately so a bulk upsert never resets
+ * `story_points` that were set by hand.
+ */
+export async function upsertGitHubItems(
+    supabase: SupabaseClient<Database>,
+    integration: Integration,
+    items: GitHubWorkItemFields[],
+) {
+    const rows = items.map((item) => ({
+        ...item,
+        team_id: integration.team_id,
+        account_id: integration.account_id,
+    }));
+
+    for (const group of [rows.filter((r) => 'story_points' in r), rows.filter((r) => !('story_points' in r))]) {
+        if (group.length === 0) continue;
+
+        const { error } = await supabase
+            .from('work_items')
+            .upsert(group, { onConflict: 'team_id,provider,external_id' });
+
+        if (error) return error;
+    }
+
+    return null;
+}
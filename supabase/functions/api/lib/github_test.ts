@@ -0,0 +1,170 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { hmacSha256Hex, verifySignature } from './crypto.ts';
+import { GitHubIssue, mapGitHubIssue, upsertGitHubItems } from './github.ts';
+
+const REPOSITORY = 'octo-org/octo-repo';
+
+/** Recorded GitHub payloads, trimmed to the fields around the ones we read. */
+async function fixture<T>(name: string): Promise<T> {
+    return JSON.parse(await Deno.readTextFile(new URL(`./testdata/github/${name}`, import.meta.url)));
+}
+
+// ---------------------------------------------------------------------------
+// mapGitHubIssue
+// ---------------------------------------------------------------------------
+
+Deno.test('mapGitHubIssue maps a labeled issue', async () => {
+    const { issue } = await fixture<{ issue: GitHubIssue }>('issues_labeled.json');
+
+    deepStrictEqual(mapGitHubIssue(REPOSITORY, issue), {
+        provider: 'github',
+        external_id: 'octo-org/octo-repo#42',
+        external_url: 'https://github.com/Octo-Org/octo-repo/issues/42',
+        title: 'Login button does nothing on Safari',
+        description: 'Clicking **Log in** on Safari 17 does nothing.\r\n\r\nNo console errors.',
+        type: 'bug',
+        status: 'in_progress',
+        story_points: 3,
+        completed_at: null,
+    });
+});
+
+Deno.test('mapGitHubIssue marks closed issues done', async () => {
+    const { issue } = await fixture<{ issue: GitHubIssue }>('issues_closed.json');
+    const item = mapGitHubIssue(REPOSITORY, issue);
+
+    strictEqual(item.type, 'chore');
+    strictEqual(item.status, 'done');
+    strictEqual(item.completed_at, '2026-04-24T16:45:31Z');
+    strictEqual(item.description, null);
+    strictEqual('story_points' in item, false);
+});
+
+Deno.test('mapGitHubIssue maps pull requests to tasks in progress or review', async () => {
+    const { pull_request } = await fixture<{ pull_request: GitHubIssue }>('pull_request_opened.json');
+
+    // The webhook marks pull_request payloads as PRs the way the issues list does
+    const draft = mapGitHubIssue(REPOSITORY, { ...pull_request, pull_request: {} });
+    strictEqual(draft.external_id, 'octo-org/octo-repo#61');
+    strictEqual(draft.type, 'task');
+    strictEqual(draft.status, 'in_progress');
+
+    const ready = mapGitHubIssue(REPOSITORY, { ...pull_request, draft: false, pull_request: {} });
+    strictEqual(ready.status, 'review');
+});
+
+Deno.test('mapGitHubIssue reads the estimate label formats', () => {
+    const issue = (label: string): GitHubIssue => ({
+        number: 1,
+        title: 'Estimate',
+        body: null,
+        html_url: 'https://github.com/octo-org/octo-repo/issues/1',
+        state: 'open',
+        closed_at: null,
+        labels: [{ name: label }],
+    });
+
+    for (const [label, points] of [['estimate: 3', 3], ['points/5', 5], ['SP 8', 8], ['story points: 13', 13]] as const) {
+        strictEqual(mapGitHubIssue(REPOSITORY, issue(label)).story_points, points, label);
+    }
+    strictEqual('story_points' in mapGitHubIssue(REPOSITORY, issue('estimate: large')), false);
+});
+
+// ---------------------------------------------------------------------------
+// verifySignature
+// ---------------------------------------------------------------------------
+
+Deno.test('verifySignature accepts GitHub\'s documented test vector', async () => {
+    // https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries#testing-the-webhook-payload-validation
+    const header = 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17';
+
+    strictEqual(await verifySignature('It\'s a Secret to Everybody', 'Hello, World!', header), true);
+});
+
+Deno.test('verifySignature checks the raw body of a recorded delivery', async () => {
+    const rawBody = await Deno.readTextFile(new URL('./testdata/github/issues_labeled.json', import.meta.url));
+    const header = `sha256=${await hmacSha256Hex('webhook-secret', rawBody)}`;
+
+    strictEqual(await verifySignature('webhook-secret', rawBody, header), true);
+    strictEqual(await verifySignature('other-secret', rawBody, header), false);
+    // Re-serialised JSON is not the body GitHub signed
+    strictEqual(await verifySignature('webhook-secret', JSON.stringify(JSON.parse(rawBody)), header), false);
+});
+
+Deno.test('verifySignature rejects missing and malformed headers', async () => {
+    strictEqual(await verifySignature('secret', 'body', undefined), false);
+    strictEqual(await verifySignature('secret', 'body', ''), false);
+    strictEqual(await verifySignature('secret', 'body', `sha1=${await hmacSha256Hex('secret', 'body')}`), false);
+    strictEqual(await verifySignature('secret', 'body', 'sha256=00'), false);
+});
+
+// ---------------------------------------------------------------------------
+// Backfill idempotency
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of a Supabase client for `work_items` upserts: rows are keyed
+ * on the conflict columns and, like PostgREST's merge-duplicates, only the
+ * columns sent are overwritten.
+ */
+function fakeClient(rows: Map<string, Row>) {
+    return {
+        from: (table: string) => ({
+            upsert: (values: Row[], { onConflict }: { onConflict: string }) => {
+                strictEqual(table, 'work_items');
+                for (const value of values) {
+                    const key = onConflict.split(',').map((column) => value[column]).join('|');
+                    rows.set(key, { ...rows.get(key), ...value });
+                }
+                return Promise.resolve({ error: null });
+            },
+        }),
+    } as unknown as SupabaseClient<Database>;
+}
+
+const INTEGRATION = { team_id: 'team-1', account_id: 'account-1' };
+
+Deno.test('backfill upserts the same rows when run twice', async () => {
+    const issues = await fixture<GitHubIssue[]>('issues_list.json');
+    const rows = new Map<string, Row>();
+    const backfill = () => upsertGitHubItems(
+        fakeClient(rows),
+        INTEGRATION,
+        issues.map((issue) => mapGitHubIssue(REPOSITORY, issue)),
+    );
+
+    strictEqual(await backfill(), null);
+    const first = structuredClone([...rows.entries()]);
+
+    strictEqual(await backfill(), null);
+    deepStrictEqual([...rows.entries()], first);
+
+    deepStrictEqual([...rows.keys()].sort(), [
+        'team-1|github|octo-org/octo-repo#12',
+        'team-1|github|octo-org/octo-repo#42',
+        'team-1|github|octo-org/octo-repo#57',
+        'team-1|github|octo-org/octo-repo#61',
+    ]);
+    strictEqual(rows.get('team-1|github|octo-org/octo-repo#61')?.status, 'review');
+});
+
+Deno.test('backfill keeps story points set by hand on unestimated issues', async () => {
+    const issues = await fixture<GitHubIssue[]>('issues_list.json');
+    const rows = new Map<string, Row>();
+    const backfill = () => upsertGitHubItems(
+        fakeClient(rows),
+        INTEGRATION,
+        issues.map((issue) => mapGitHubIssue(REPOSITORY, issue)),
+    );
+
+    await backfill();
+    rows.get('team-1|github|octo-org/octo-repo#12')!.story_points = 5;
+    await backfill();
+
+    strictEqual(rows.get('team-1|github|octo-org/octo-repo#12')?.story_points, 5);
+    strictEqual(rows.get('team-1|github|octo-org/octo-repo#42')?.story_points, 3);
+});
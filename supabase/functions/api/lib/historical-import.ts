@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { HistoricalMetricRowSchema } from '@sprintpulse/shared/schemas/index.ts';
+
+export type HistoricalMetricRow = z.infer<typeof HistoricalMetricRowSchema>;
+
+export type RowError = {
+    row: number; // 1-based, matching the line numbers users see in a spreadsheet body
+    field: string | null;
+    message: string;
+};
+
+type MappedField = Exclude<keyof HistoricalMetricRow, 'custom_soft_metrics'>;
+
+/**
+ * Column names used by common exports, normalized (lowercase, non
+ * alphanumerics collapsed to `_`), mapped onto `historical_metrics` fields.
+ */
+const COLUMN_ALIASES: Record<string, MappedField> = {
+    email: 'email',
+    user_email: 'email',
+    member_email: 'email',
+
+    date: 'metric_date',
+    metric_date: 'metric_date',
+    sprint_end: 'metric_date',
+    sprint_end_date: 'metric_date',
+
+    velocity: 'velocity_avg',
+    velocity_avg: 'velocity_avg',
+    avg_velocity: 'velocity_avg',
+    average_velocity: 'velocity_avg',
+
+    points_completed: 'last_sprint_points_completed',
+    completed_points: 'last_sprint_points_completed',
+    last_sprint_points_completed: 'last_sprint_points_completed',
+    items_completed: 'last_sprint_items_completed',
+    completed_items: 'last_sprint_items_completed',
+    last_sprint_items_completed: 'last_sprint_items_completed',
+    points_incomplete: 'last_sprint_points_incomplete',
+    incomplete_points: 'last_sprint_points_incomplete',
+    last_sprint_points_incomplete: 'last_sprint_points_incomplete',
+    items_incomplete: 'last_sprint_items_incomplete',
+    incomplete_items: 'last_sprint_items_incomplete',
+    last_sprint_items_incomplete: 'last_sprint_items_incomplete',
+
+    satisfaction: 'satisfaction_score',
+    satisfaction_score: 'satisfaction_score',
+    happiness: 'satisfaction_score',
+    flow: 'flow_score',
+    flow_score: 'flow_score',
+    focus: 'flow_score',
+    friction: 'friction_score',
+    friction_score: 'friction_score',
+    safety: 'safety_score',
+    safety_score: 'safety_score',
+    psychological_safety: 'safety_score',
+    workload: 'workload_balance_score',
+    workload_balance: 'workload_balance_score',
+    workload_balance_score: 'workload_balance_score',
+    clarity: 'requirement_clarity_score',
+    requirement_clarity: 'requirement_clarity_score',
+    requirement_clarity_score: 'requirement_clarity_score',
+    support: 'support_score',
+    support_score: 'support_score',
+};
+
+function normalizeColumn(column: string): string {
+    return column.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Maps a raw record onto the import row shape. Known columns land on their
+ * field; anything else with a value is kept in `custom_soft_metrics`.
+ */
+function mapRecord(record: Record<string, unknown>): Record<string, unknown> {
+    const mapped: Record<string, unknown> = {
+        email: null,
+        metric_date: null,
+        velocity_avg: null,
+        last_sprint_points_completed: null,
+        last_sprint_items_completed: null,
+        last_sprint_points_incomplete: null,
+        last_sprint_items_incomplete: null,
+        satisfaction_score: null,
+        flow_score: null,
+        friction_score: null,
+        safety_score: null,
+        workload_balance_score: null,
+        requirement_clarity_score: null,
+        support_score: null,
+    };
+    const custom: Record<string, string> = {};
+
+    for (const [column, raw] of Object.entries(record)) {
+        const value = raw === null || raw === undefined ? '' : String(raw).trim();
+        if (value === '') continue;
+
+        const field = COLUMN_ALIASES[normalizeColumn(column)];
+        if (field) {
+            mapped[field] = field === 'email' ? value.toLowerCase() : value;
+        } else {
+            custom[column.trim()] = value;
+        }
+    }
+
+    return { ...mapped, custom_soft_metrics: custom };
+}
+
+/**
+ * Maps and validates every record. Rows that fail validation are reported
+ * in `errors` and left out of `rows`.
+ */
+export function validateRecords(records: Record<string, unknown>[]): {
+    rows: { row: number; data: HistoricalMetricRow }[];
+    errors: RowError[];
+} {
+    const rows: { row: number; data: HistoricalMetricRow }[] = [];
+    const errors: RowError[] = [];
+
+    records.forEach((record, index) => {
+        const row = index + 1;
+        const result = HistoricalMetricRowSchema.safeParse(mapRecord(record));
+
+        if (result.success) {
+            rows.push({ row, data: result.data });
+            return;
+        }
+
+        for (const issue of result.error.issues) {
+            errors.push({
+                row,
+                field: issue.path.length > 0 ? String(issue.path[0]) : null,
+                message: issue.message,
+            });
+        }
+    });
+
+    return { rows, errors };
+}
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import {
+    JiraIntegrationSettingsSchema,
+    WorkItemStatusEnum,
+    WorkItemTypeEnum,
+} from '@sprintpulse/shared/schemas/index.ts';
+
+type WorkItemStatus = z.infer<typeof WorkItemStatusEnum>;
+type WorkItemType = z.infer<typeof WorkItemTypeEnum>;
+
+export type JiraSettings = z.infer<typeof JiraIntegrationSettingsSchema>;
+
+/** A Jira sprint as it appears in the sprint custom field. */
+export type JiraSprint = {
+    id: number;
+    name: string;
+    state: 'active' | 'future' | 'closed';
+    startDate?: string;
+    endDate?: string;
+};
+
+/** The subset of a Jira Cloud webhook `issue` we read. */
+export type JiraIssue = {
+    key: string;
+    self: string;
+    fields: Record<string, unknown> & {
+        summary: string;
+        description?: unknown;
+        project?: { key: string };
+        issuetype?: { name: string };
+        status?: { name: string; statusCategory?: { key: string } };
+        resolutiondate?: string | null;
+        statuscategorychangedate?: string;
+    };
+};
+
+/** Fields of a `work_items` shadow record derived from Jira. */
+export type JiraWorkItemFields = {
+    provider: 'jira';
+    external_id: string;
+    external_url: string | null;
+    title: string;
+    description: string | null;
+    type: WorkItemType;
+    status: WorkItemStatus;
+    story_points?: number;
+    completed_at: string | null;
+};
+
+// Jira status categories: "new" (To Do), "indeterminate" (In Progress), "done"
+const STATUS_CATEGORIES: Record<string, WorkItemStatus> = {
+    new: 'todo',
+    indeterminate: 'in_progress',
+    done: 'done',
+};
+
+const DEFAULT_TYPES: Record<string, WorkItemType> = {
+    bug: 'bug',
+    task: 'task',
+    'sub-task': 'task',
+    subtask: 'task',
+    story: 'story',
+    chore: 'chore',
+};
+
+function lookup<T>(map: Record<string, T>, name: string | undefined): T | undefined {
+    if (!name) return undefined;
+    const key = Object.keys(map).find((k) => k.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : map[key];
+}
+
+/**
+ * Flattens a description to plain text. Jira Cloud sends Atlassian Document
+ * Format (a node tree); older payloads send a string.
+ */
+function plainText(description: unknown): string | null {
+    if (description === null || description === undefined) return null;
+    if (typeof description === 'string') return description;
+
+    const blocks: string[] = [];
+    const walk = (node: { type?: string; text?: string; content?: unknown[] }, out: string[]) => {
+        if (node.text) out.push(node.text);
+        for (const child of node.content ?? []) walk(child as typeof node, out);
+    };
+
+    for (const block of (description as { content?: unknown[] }).content ?? []) {
+        const out: string[] = [];
+        walk(block as { content?: unknown[] }, out);
+        if (out.length > 0) blocks.push(out.join(''));
+    }
+
+    return blocks.length > 0 ? blocks.join('\n\n') : null;
+}
+
+/**
+ * When a done issue was finished: its resolution date, else when its status
+ * category last changed (issues in a done status without a resolution), else
+ * now. Jira's `+0000` offsets are normalized to ISO strings.
+ */
+function completedAt(fields: JiraIssue['fields']): string {
+    const date = new Date(fields.resolutiondate ?? fields.statuscategorychangedate ?? Date.now());
+    return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/** Maps a Jira issue onto work item fields using the team's mapping config. */
+export function mapJiraIssue(issue: JiraIssue, settings: JiraSettings): JiraWorkItemFields {
+    const { fields } = issue;
+
+    const status = lookup(settings.status_map, fields.status?.name)
+        ?? STATUS_CATEGORIES[fields.status?.statusCategory?.key ?? '']
+        ?? 'todo';
+
+    const type = lookup(settings.type_map, fields.issuetype?.name)
+        ?? lookup(DEFAULT_TYPES, fields.issuetype?.name)
+        ?? 'story';
+
+    const points = fields[settings.story_points_field];
+
+    return {
+        provider: 'jira',
+        external_id: issue.key,
+        // `self` is the issue's REST URL; payloads without a usable one get no link
+        external_url: URL.canParse(issue.self) ? `${new URL(issue.self).origin}/browse/${issue.key}` : null,
+        title: fields.summary,
+        description: plainText(fields.description),
+        type,
+        status,
+        // Jira estimates can be fractional; work items store whole points
+        ...(typeof points === 'number' ? { story_points: Math.max(0, Math.round(points)) } : {}),
+        completed_at: status === 'done' ? completedAt(fields) : null,
+    };
+}
+
+/**
+ * The Jira sprint an issue currently belongs to, or null when it sits in the
+ * backlog. Returns undefined when the payload has no sprint field at all, so
+ * callers can leave `sprint_id` untouched.
+ *
+ * An issue that rolled over keeps its closed sprints in the list; the active
+ * sprint wins, then the latest future one, then the latest closed one.
+ */
+export function currentJiraSprint(issue: JiraIssue, settings: JiraSettings): JiraSprint | null | undefined {
+    if (!(settings.sprint_field in issue.fields)) return undefined;
+
+    const sprints = (issue.fields[settings.sprint_field] as JiraSprint[] | null) ?? [];
+    if (sprints.length === 0) return null;
+
+    const byId = [...sprints].sort((a, b) => b.id - a.id);
+
+    return byId.find((s) => s.state === 'active')
+        ?? byId.find((s) => s.state === 'future')
+        ?? byId[0];
+}
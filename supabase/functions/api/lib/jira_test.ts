@@ -0,0 +1,62 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { JiraIntegrationSettingsSchema } from '@sprintpulse/shared/schemas/index.ts';
+import { JiraIssue, mapJiraIssue } from './jira.ts';
+
+const SETTINGS = JiraIntegrationSettingsSchema.parse({});
+
+function issue(fields: Partial<JiraIssue['fields']> = {}): JiraIssue {
+    return {
+        key: 'PULSE-7',
+        self: 'https://example.atlassian.net/rest/api/3/issue/10007',
+        fields: {
+            summary: 'Export sprint report as PDF',
+            issuetype: { name: 'Story' },
+            status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+            customfield_10016: 2.5,
+            ...fields,
+        },
+    };
+}
+
+// ---------------------------------------------------------------------------
+// mapJiraIssue
+// ---------------------------------------------------------------------------
+
+Deno.test('mapJiraIssue maps an issue in progress', () => {
+    deepStrictEqual(mapJiraIssue(issue(), SETTINGS), {
+        provider: 'jira',
+        external_id: 'PULSE-7',
+        external_url: 'https://example.atlassian.net/browse/PULSE-7',
+        title: 'Export sprint report as PDF',
+        description: null,
+        type: 'story',
+        status: 'in_progress',
+        story_points: 3,
+        completed_at: null,
+    });
+});
+
+Deno.test('mapJiraIssue stamps done issues with their resolution date', () => {
+    const done = { name: 'Done', statusCategory: { key: 'done' } };
+
+    const resolved = mapJiraIssue(issue({
+        status: done,
+        resolutiondate: '2026-04-24T16:45:31.000+0000',
+        statuscategorychangedate: '2026-04-20T09:00:00.000+0000',
+    }), SETTINGS);
+    strictEqual(resolved.status, 'done');
+    strictEqual(resolved.completed_at, '2026-04-24T16:45:31.000Z');
+
+    // Done statuses without a resolution fall back to the status change
+    const unresolved = mapJiraIssue(issue({
+        status: done,
+        resolutiondate: null,
+        statuscategorychangedate: '2026-04-20T09:00:00.000+0000',
+    }), SETTINGS);
+    strictEqual(unresolved.completed_at, '2026-04-20T09:00:00.000Z');
+});
+
+Deno.test('mapJiraIssue leaves external_url empty when self is not a URL', () => {
+    strictEqual(mapJiraIssue({ ...issue(), self: 'not a url' }, SETTINGS).external_url, null);
+    strictEqual(mapJiraIssue({ ...issue(), self: undefined as unknown as string }, SETTINGS).external_url, null);
+});
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ApiErrorSchema } from '@sprintpulse/shared/schemas/index.ts';
+import { validationOf } from './validator.ts';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * How a route authenticates:
+ * - `bearer`: Supabase user JWT (the default).
+ * - `cron`: `X-Cron-Secret` header (scheduled jobs).
+ * - `signature`: provider HMAC signature of the body (webhooks).
+ * - `none`: public.
+ */
+export type RouteAuth = 'bearer' | 'cron' | 'signature' | 'none';
+
+/**
+ * Documentation for one route, keyed by "METHOD /path" (Hono path syntax).
+ * Query parameters and request bodies come from the route's validators.
+ */
+export type RouteDoc = {
+    tag: string;
+    summary: string;
+    description?: string;
+    auth?: RouteAuth;
+    /** Success response body; omitted for non-JSON responses. */
+    response?: z.ZodTypeAny;
+    /** Success status, 200 by default. */
+    status?: number;
+    /** Error statuses besides the 401 / 500 every route can return. */
+    errors?: number[];
+    /** Left out of the document (e.g. the docs routes themselves). */
+    hidden?: boolean;
+};
+
+/** A registered route, as listed by Hono's `app.routes`. */
+export type RegisteredRoute = { method: string; path: string; handler: unknown };
+
+/** The schemas a route validates its input with. */
+type RouteInput = { query?: z.ZodTypeAny; body?: z.ZodTypeAny };
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+    400: 'Invalid request',
+    401: 'Missing or invalid credentials',
+    403: 'Not allowed for the caller',
+    404: 'Not found',
+    409: 'Conflicts with the current state',
+    422: 'Semantically invalid input',
+    500: 'Unexpected server error',
+    502: 'Upstream provider error',
+};
+
+// zValidator's own 400 body, returned before the handler runs
+const ValidationErrorSchema = z.object({
+    success: z.literal(false),
+    error: z.object({
+        name: z.literal('ZodError'),
+        issues: z.array(z.object({
+            code: z.string(),
+            path: z.array(z.union([z.string(), z.number()])),
+            message: z.string(),
+        })),
+    }),
+});
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const { $schema: _, ...json } = zodToJsonSchema(schema, {
+        target: 'jsonSchema2019-09',
+        $refStrategy: 'none',
+    }) as JsonSchema;
+    return json;
+}
+
+function queryParameters(schema: z.ZodTypeAny | undefined) {
+    if (!schema) return [];
+    const json = toJsonSchema(schema) as { properties?: Record<string, JsonSchema>; required?: string[] };
+    return Object.entries(json.properties ?? {}).map(([name, property]) => ({
+        name,
+        in: 'query',
+        required: json.required?.includes(name) ?? false,
+        ...(property.description ? { description: property.description } : {}),
+        schema: property,
+    }));
+}
+
+function operation(route: RegisteredRoute, pathParams: string[], doc: RouteDoc | undefined, input: RouteInput) {
+    const auth = doc?.auth ?? 'bearer';
+    const status = doc?.status ?? 200;
+    const validated = Boolean(input.body || input.query);
+
+    const errors = new Set([...(doc?.errors ?? []), ...(validated ? [400] : [])]);
+    if (auth !== 'none') errors.add(401);
+    errors.add(500);
+
+    const responses: Record<string, unknown> = {
+        [status]: doc?.response
+            ? { description: 'Success', content: { 'application/json': { schema: toJsonSchema(doc.response) } } }
+            : { description: 'Success' },
+    };
+
+    for (const code of [...errors].sort((a, b) => a - b)) {
+        const schema = code === 400 && validated
+            ? { anyOf: [toJsonSchema(ApiErrorSchema), toJsonSchema(ValidationErrorSchema)] }
+            : toJsonSchema(ApiErrorSchema);
+        responses[code] = {
+            description: ERROR_DESCRIPTIONS[code] ?? 'Error',
+            content: { 'application/json': { schema } },
+        };
+    }
+
+    return {
+        // Undocumented routes still appear, so the document never hides one
+        tags: [doc?.tag ?? 'Other'],
+        summary: doc?.summary ?? `${route.method} ${route.path}`,
+        ...(doc?.description ? { description: doc.description } : {}),
+        security: auth === 'bearer' ? [{ bearerAuth: [] }] : auth === 'cron' ? [{ cronSecret: [] }] : [],
+        parameters: [
+            ...pathParams.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+            ...queryParameters(input.query),
+        ],
+        ...(input.body
+            ? { requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(input.body) } } } }
+            : {}),
+        responses,
+    };
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the app's registered routes and their
+ * docs. Paths come from the routes themselves, query parameters and request
+ * bodies from their validators (`lib/validator.ts`).
+ */
+export function buildOpenApiDocument(
+    routes: RegisteredRoute[],
+    docs: Record<string, RouteDoc>,
+    { basePath, version }: { basePath: string; version: string },
+) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    const inputs = new Map<string, RouteInput>();
+    const seen = new Set<string>();
+    const keyOf = (route: RegisteredRoute) => `${route.method} ${route.path.slice(basePath.length)}`;
+
+    // Validators are registered as handlers of their route, ahead of it
+    for (const route of routes) {
+        const validation = validationOf(route.handler);
+        if (!validation || (validation.target !== 'query' && validation.target !== 'json')) continue;
+
+        const input = inputs.get(keyOf(route)) ?? {};
+        input[validation.target === 'query' ? 'query' : 'body'] = validation.schema;
+        inputs.set(keyOf(route), input);
+    }
+
+    for (const route of routes) {
+        // 'ALL' entries are middleware; validators register a route twice
+        const key = keyOf(route);
+        if (route.method === 'ALL' || seen.has(key)) continue;
+        seen.add(key);
+
+        const doc = docs[key];
+        if (doc?.hidden) continue;
+
+        const pathParams = [...route.path.matchAll(/:(\w+)/g)].map((m) => m[1]);
+        const path = route.path.replace(/:(\w+)/g, '{$1}');
+
+        paths[path] ??= {};
+        paths[path][route.method.toLowerCase()] = operation(route, pathParams, doc, inputs.get(key) ?? {});
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: { title: 'Sprint Pulse API', version },
+        servers: [{ url: '/functions/v1' }],
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+                cronSecret: { type: 'apiKey', in: 'header', name: 'X-Cron-Secret' },
+            },
+        },
+        paths,
+    };
+}
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { ListQuerySchema } from '@sprintpulse/shared/schemas/index.ts';
+
+export type ListQuery = z.infer<typeof ListQuerySchema>;
+
+/** What a list endpoint supports on top of `cursor` / `limit`. */
+export type ListOptions = {
+    /** Sortable columns. They must be non-null, or rows will be skipped. */
+    sortable: readonly string[];
+    /** Sort used when none is given, e.g. "-end_date". */
+    defaultSort: string;
+    /** Column `from` / `to` apply to. Without one, they are rejected. */
+    dateColumn?: string;
+    /** Column `status` applies to, with its allowed values. */
+    status?: { column: string; values: readonly string[] };
+    /** Unique column that breaks sort ties. Defaults to `id`. */
+    key?: string;
+};
+
+/** A validated list request, ready to apply to a query. */
+export type ListPlan = {
+    sort: string;
+    column: string;
+    ascending: boolean;
+    key: string;
+    limit: number;
+    after: { value: unknown; key: unknown } | null;
+    statusColumn?: string;
+    statuses?: string[];
+    dateColumn?: string;
+    from?: string;
+    to?: string;
+};
+
+type Cursor = { s: string; v: unknown; k: unknown };
+
+// The subset of the PostgREST filter builder the plan needs
+type ListBuilder<B> = {
+    in(column: string, values: readonly string[]): B;
+    gte(column: string, value: string): B;
+    lt(column: string, value: string): B;
+    or(filters: string): B;
+    order(column: string, options: { ascending: boolean }): B;
+    limit(count: number): B;
+};
+
+function encodeCursor(cursor: Cursor): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+function decodeCursor(value: string): Cursor | null {
+    try {
+        const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+        const cursor = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0))));
+        return typeof cursor?.s === 'string' && 'v' in cursor && 'k' in cursor ? cursor : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Quotes a value for a PostgREST `or=(...)` filter. */
+function quote(value: unknown): string {
+    return `"${String(value).replace(/["\\]/g, '\\$&')}"`;
+}
+
+function nextDay(date: string): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Checks a list request against what the endpoint supports. Returns an error
+ * message for the 400 response when it asks for something unsupported.
+ */
+export function planList(params: ListQuery, options: ListOptions): ListPlan | { error: string } {
+    const sort = params.sort ?? options.defaultSort;
+    const column = sort.replace(/^-/, '');
+
+    if (!options.sortable.includes(column)) {
+        return { error: `Invalid sort: expected one of ${options.sortable.join(', ')}` };
+    }
+
+    if (params.status && !options.status) {
+        return { error: 'This list cannot be filtered by status' };
+    }
+    const invalidStatus = params.status?.find((s) => !options.status!.values.includes(s));
+    if (invalidStatus !== undefined) {
+        return { error: `Invalid status: expected one of ${options.status!.values.join(', ')}` };
+    }
+
+    if ((params.from || params.to) && !options.dateColumn) {
+        return { error: 'This list cannot be filtered by date' };
+    }
+
+    let after: ListPlan['after'] = null;
+    if (params.cursor) {
+        const cursor = decodeCursor(params.cursor);
+        // A cursor only continues the sort it was issued for
+        if (!cursor || cursor.s !== sort) {
+            return { error: 'Invalid cursor' };
+        }
+        after = { value: cursor.v, key: cursor.k };
+    }
+
+    return {
+        sort,
+        column,
+        ascending: !sort.startsWith('-'),
+        key: options.key ?? 'id',
+        limit: params.limit,
+        after,
+        statusColumn: options.status?.column,
+        statuses: params.status,
+        dateColumn: options.dateColumn,
+        from: params.from,
+        to: params.to,
+    };
+}
+
+/**
+ * Applies filters, the keyset cursor and the sort to a query. One extra row
+ * is fetched so `toPage` can tell whether there is a next page.
+ */
+export function applyList<B extends ListBuilder<B>>(query: B, plan: ListPlan): B {
+    if (plan.statuses && plan.statusColumn) query = query.in(plan.statusColumn, plan.statuses);
+    if (plan.from && plan.dateColumn) query = query.gte(plan.dateColumn, plan.from);
+    if (plan.to && plan.dateColumn) query = query.lt(plan.dateColumn, nextDay(plan.to));
+
+    if (plan.after) {
+        const op = plan.ascending ? 'gt' : 'lt';
+        const { column, key } = plan;
+        const value = quote(plan.after.value);
+        query = query.or(
+            `${column}.${op}.${value},and(${column}.eq.${value},${key}.${op}.${quote(plan.after.key)})`,
+        );
+    }
+
+    return query
+        .order(plan.column, { ascending: plan.ascending })
+        .order(plan.key, { ascending: plan.ascending })
+        .limit(plan.limit + 1);
+}
+
+/** Wraps fetched rows in the list envelope, `{ data, next_cursor }`. */
+export function toPage<T extends Record<string, unknown>>(rows: T[], plan: ListPlan) {
+    const data = rows.slice(0, plan.limit);
+    const last = data[data.length - 1];
+
+    return {
+        data,
+        next_cursor: rows.length > plan.limit && last
+            ? encodeCursor({ s: plan.sort, v: last[plan.column], k: last[plan.key] })
+            : null,
+    };
+}
@@ -0,0 +1,311 @@
+import { z } from 'zod';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { SprintPulseSchema, SprintReportSchema } from '@sprintpulse/shared/schemas/index.ts';
+import { SprintBurndown } from './burndown.ts';
+import { SprintVelocity } from './velocity.ts';
+
+type Sprint = SprintReport['sprint'];
+type Kudos = Pick<
+    Database['public']['Tables']['kudos']['Row'],
+    'id' | 'sender_user_id' | 'receiver_user_id' | 'category' | 'message' | 'created_at'
+>;
+type CarryOver = Pick<
+    Database['public']['Tables']['sprint_carry_overs']['Row'],
+    'outcome' | 'story_points'
+>;
+
+export type SprintReport = z.infer<typeof SprintReportSchema>;
+export type SprintPulse = z.infer<typeof SprintPulseSchema>;
+
+/** Shown for kudos senders / receivers without a profile name. */
+const UNKNOWN_MEMBER = 'A teammate';
+
+/** Code-unit order, so sorting never depends on the runtime's locale. */
+function compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Assembles the retrospective report for a sprint. Every list has a fixed
+ * order and nothing depends on the current time beyond what `burndown`
+ * already does, so a completed sprint always yields the same report.
+ */
+export function buildSprintReport(input: {
+    sprint: Sprint;
+    teamName: string;
+    previousSprint: { id: string; name: string } | null;
+    velocity: SprintVelocity | undefined;
+    carryOvers: CarryOver[];
+    burndown: SprintBurndown;
+    pulse: SprintPulse;
+    previousPulse: SprintPulse | null;
+    textAnswers: SprintReport['text_answers'];
+    kudos: Kudos[];
+    names: Map<string, string>;
+}): SprintReport {
+    const { pulse, previousPulse } = input;
+
+    const previousAverages = new Map(
+        (previousPulse?.categories ?? []).map((c) => [c.metric_category, c.average])
+    );
+
+    const sumPoints = (outcome: string) => input.carryOvers
+        .filter((co) => co.outcome === outcome)
+        .reduce((total, co) => total + co.story_points, 0);
+
+    return {
+        sprint: input.sprint,
+        team_name: input.teamName,
+        previous_sprint: input.previousSprint,
+        points: {
+            committed_points: input.velocity?.committed_points ?? null,
+            completed_points: input.velocity?.completed_points ?? 0,
+            completed_items: input.velocity?.completed_items ?? 0,
+            say_do_ratio: input.velocity?.say_do_ratio ?? null,
+            carried_points: sumPoints('carried'),
+            dropped_points: sumPoints('dropped'),
+        },
+        burndown: input.burndown,
+        pulse: {
+            min_respondents: pulse.min_respondents,
+            participation: pulse.participation,
+            categories: pulse.categories.map((category) => {
+                const previous = previousAverages.get(category.metric_category) ?? null;
+                return {
+                    metric_category: category.metric_category,
+                    respondent_count: category.respondent_count,
+                    suppressed: category.suppressed,
+                    average: category.average,
+                    previous_average: previous,
+                    delta: category.average !== null && previous !== null
+                        ? round(category.average - previous)
+                        : null,
+                };
+            }),
+        },
+        text_answers: input.textAnswers,
+        kudos: [...input.kudos]
+            .sort((a, b) => compare(a.created_at ?? '', b.created_at ?? '') || compare(a.id, b.id))
+            .map((k) => ({
+                id: k.id,
+                sender_name: (k.sender_user_id && input.names.get(k.sender_user_id)) || UNKNOWN_MEMBER,
+                receiver_name: (k.receiver_user_id && input.names.get(k.receiver_user_id)) || UNKNOWN_MEMBER,
+                category: k.category as SprintReport['kudos'][number]['category'],
+                message: k.message,
+                created_at: k.created_at!,
+            })),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// Both formats render the same block list, so they never drift apart.
+// ---------------------------------------------------------------------------
+
+type Block =
+    | { type: 'heading'; level: 1 | 2 | 3; text: string }
+    | { type: 'fields'; fields: [string, string][] }
+    | { type: 'paragraph'; text: string }
+    | { type: 'table'; headers: string[]; rows: string[][] }
+    | { type: 'list'; items: string[] };
+
+const NONE = '–';
+
+/** "technical_win" → "Technical win" */
+function humanize(value: string): string {
+    const text = value.replace(/_/g, ' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatNumber(value: number | null): string {
+    return value === null ? NONE : String(value);
+}
+
+function formatPercent(value: number | null): string {
+    return value === null ? NONE : `${Math.round(value * 100)}%`;
+}
+
+function formatDelta(value: number | null): string {
+    if (value === null) return NONE;
+    return value > 0 ? `+${value}` : String(value);
+}
+
+function toBlocks(report: SprintReport): Block[] {
+    const { sprint, points, pulse } = report;
+    const hidden = `Hidden (fewer than ${pulse.min_respondents} respondents)`;
+
+    const blocks: Block[] = [
+        { type: 'heading', level: 1, text: `Sprint report: ${sprint.name}` },
+        {
+            type: 'fields',
+            fields: [
+                ['Team', report.team_name],
+                ['Dates', `${sprint.start_date} to ${sprint.end_date}`],
+                ['Status', humanize(sprint.status)],
+                ['Goal', sprint.goal?.trim() || NONE],
+            ],
+        },
+
+        { type: 'heading', level: 2, text: 'Delivery' },
+        {
+            type: 'table',
+            headers: ['Committed', 'Completed', 'Items completed', 'Say/do', 'Carried over', 'Dropped'],
+            rows: [[
+                formatNumber(points.committed_points),
+                formatNumber(points.completed_points),
+                formatNumber(points.completed_items),
+                formatPercent(points.say_do_ratio),
+                formatNumber(points.carried_points),
+                formatNumber(points.dropped_points),
+            ]],
+        },
+
+        { type: 'heading', level: 2, text: 'Burndown' },
+        {
+            type: 'table',
+            headers: ['Date', 'Ideal remaining', 'Remaining', 'Completed', 'Scope'],
+            rows: report.burndown.series.map((p) => [
+                p.date,
+                formatNumber(p.ideal_points_remaining),
+                formatNumber(p.points_remaining),
+                formatNumber(p.points_completed),
+                formatNumber(p.scope_points),
+            ]),
+        },
+
+        { type: 'heading', level: 2, text: 'Pulse' },
+        {
+            type: 'paragraph',
+            text: `${pulse.participation.respondent_count} of ${pulse.participation.team_member_count} `
+                + `team members responded (${formatPercent(pulse.participation.rate)}).`,
+        },
+    ];
+
+    if (pulse.categories.length > 0) {
+        blocks.push({
+            type: 'table',
+            headers: ['Metric', 'Average', report.previous_sprint ? report.previous_sprint.name : 'Previous', 'Change'],
+            rows: pulse.categories.map((c) => c.suppressed
+                ? [humanize(c.metric_category), hidden, formatNumber(c.previous_average), NONE]
+                : [
+                    humanize(c.metric_category),
+                    formatNumber(c.average),
+                    formatNumber(c.previous_average),
+                    formatDelta(c.delta),
+                ]),
+        });
+    }
+
+    blocks.push({ type: 'heading', level: 2, text: 'What people said' });
+    if (report.text_answers.length === 0) {
+        blocks.push({ type: 'paragraph', text: 'No written answers.' });
+    }
+    for (const question of report.text_answers) {
+        blocks.push({ type: 'heading', level: 3, text: question.question_text });
+        blocks.push(question.suppressed
+            ? { type: 'paragraph', text: hidden }
+            : { type: 'list', items: question.answers });
+    }
+
+    blocks.push({ type: 'heading', level: 2, text: 'Kudos' });
+    blocks.push(report.kudos.length === 0
+        ? { type: 'paragraph', text: 'No kudos this sprint.' }
+        : {
+            type: 'list',
+            items: report.kudos.map((k) =>
+                `${k.sender_name} → ${k.receiver_name}`
+                + (k.category ? ` (${humanize(k.category)})` : '')
+                + `: ${k.message}`
+            ),
+        });
+
+    return blocks;
+}
+
+/** Escapes user text for inline Markdown, folding line breaks into spaces. */
+function escapeMarkdown(text: string): string {
+    return text.replace(/\s*\r?\n\s*/g, ' ').replace(/([\\`*_[\]<>|#])/g, '\\$1');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/** Renders the report as GitHub-flavoured Markdown. */
+export function renderReportMarkdown(report: SprintReport): string {
+    const md = escapeMarkdown;
+
+    return toBlocks(report).map((block) => {
+        switch (block.type) {
+            case 'heading':
+                return `${'#'.repeat(block.level)} ${md(block.text)}`;
+            case 'fields':
+                return block.fields.map(([label, value]) => `- **${label}:** ${md(value)}`).join('\n');
+            case 'paragraph':
+                return md(block.text);
+            case 'table':
+                return [
+                    `| ${block.headers.map(md).join(' | ')} |`,
+                    `| ${block.headers.map(() => '---').join(' | ')} |`,
+                    ...block.rows.map((row) => `| ${row.map(md).join(' | ')} |`),
+                ].join('\n');
+            case 'list':
+                return block.items.map((item) => `- ${md(item)}`).join('\n');
+        }
+    }).join('\n\n') + '\n';
+}
+
+/** Renders the report as a standalone HTML page. */
+export function renderReportHtml(report: SprintReport): string {
+    const h = escapeHtml;
+
+    const body = toBlocks(report).map((block) => {
+        switch (block.type) {
+            case 'heading':
+                return `<h${block.level}>${h(block.text)}</h${block.level}>`;
+            case 'fields':
+                return `<dl>\n${
+                    block.fields.map(([label, value]) => `<dt>${h(label)}</dt><dd>${h(value)}</dd>`).join('\n')
+                }\n</dl>`;
+            case 'paragraph':
+                return `<p>${h(block.text)}</p>`;
+            case 'table':
+                return [
+                    '<table>',
+                    `<thead><tr>${block.headers.map((cell) => `<th>${h(cell)}</th>`).join('')}</tr></thead>`,
+                    '<tbody>',
+                    ...block.rows.map((row) => `<tr>${row.map((cell) => `<td>${h(cell)}</td>`).join('')}</tr>`),
+                    '</tbody>',
+                    '</table>',
+                ].join('\n');
+            case 'list':
+                return `<ul>\n${block.items.map((item) => `<li>${h(item)}</li>`).join('\n')}\n</ul>`;
+        }
+    }).join('\n');
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${h(`Sprint report: ${report.sprint.name}`)}</title>`,
+        '<style>body{font-family:sans-serif;max-width:60rem;margin:2rem auto;padding:0 1rem}'
+            + 'table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:.25rem .5rem;text-align:left}'
+            + 'dt{font-weight:bold}</style>',
+        '</head>',
+        '<body>',
+        body,
+        '</body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
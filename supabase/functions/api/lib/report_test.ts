@@ -0,0 +1,238 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+import { buildSprintReport, renderReportHtml, renderReportMarkdown, SprintPulse } from './report.ts';
+
+/**
+ * Compares `actual` with the snapshot file under testdata/report. Run with
+ * UPDATE_SNAPSHOTS=1 to (re)write the snapshots after an intended change.
+ */
+async function assertSnapshot(name: string, actual: string) {
+    const url = new URL(`./testdata/report/${name}`, import.meta.url);
+    if (Deno.env.get('UPDATE_SNAPSHOTS')) {
+        await Deno.writeTextFile(url, actual);
+        return;
+    }
+    strictEqual(actual, await Deno.readTextFile(url), `${name} differs from its snapshot`);
+}
+
+const SPRINT_ID = '3f0c9a52-6b1e-4a8e-9d5c-2d7f1e0b8a41';
+const PREVIOUS_SPRINT_ID = '8b2d4e61-0c3f-4f7a-a915-6e8c2b1d9f07';
+const TEAM_ID = 'c71e2f38-5a94-4b06-8d1c-90e4f3a2b6d5';
+const ALICE = 'a1b2c3d4-0000-4000-8000-000000000001';
+const BOB = 'a1b2c3d4-0000-4000-8000-000000000002';
+const CAROL = 'a1b2c3d4-0000-4000-8000-000000000003';
+
+function pulse(sprintId: string, categories: SprintPulse['categories']): SprintPulse {
+    return {
+        sprint_id: sprintId,
+        min_respondents: 3,
+        participation: { respondent_count: 4, team_member_count: 5, rate: 0.8 },
+        categories,
+        questions: [],
+    };
+}
+
+/** A completed sprint with user text that needs escaping in both formats. */
+function buildReport() {
+    return buildSprintReport({
+        sprint: {
+            id: SPRINT_ID,
+            team_id: TEAM_ID,
+            name: 'Sprint 14 <Payments> | "Q2"',
+            goal: 'Ship *retries* & refunds',
+            status: 'completed',
+            start_date: '2026-04-06',
+            end_date: '2026-04-08',
+        },
+        teamName: 'Core_Team #1',
+        previousSprint: { id: PREVIOUS_SPRINT_ID, name: 'Sprint 13' },
+        velocity: {
+            sprint_id: SPRINT_ID,
+            name: 'Sprint 14',
+            start_date: '2026-04-06',
+            end_date: '2026-04-08',
+            committed_points: 20,
+            completed_points: 16,
+            completed_items: 7,
+            say_do_ratio: 0.8,
+            rolling_avg_completed_points: 15.33,
+            rolling_avg_say_do_ratio: 0.77,
+        },
+        carryOvers: [
+            { outcome: 'carried', story_points: 3 },
+            { outcome: 'dropped', story_points: 1 },
+            { outcome: 'carried', story_points: 2 },
+        ],
+        burndown: {
+            sprint_id: SPRINT_ID,
+            start_date: '2026-04-06',
+            end_date: '2026-04-08',
+            committed_points: 20,
+            series: [
+                {
+                    date: '2026-04-06', ideal_points_remaining: 20, points_remaining: 20, points_completed: 0,
+                    scope_points: 20, items_remaining: 9, items_completed: 0, is_filled: false,
+                },
+                {
+                    date: '2026-04-07', ideal_points_remaining: 10, points_remaining: 12, points_completed: 9,
+                    scope_points: 21, items_remaining: 5, items_completed: 4, is_filled: true,
+                },
+                {
+                    date: '2026-04-08', ideal_points_remaining: 0, points_remaining: 5, points_completed: 16,
+                    scope_points: 21, items_remaining: 2, items_completed: 7, is_filled: false,
+                },
+            ],
+        },
+        pulse: pulse(SPRINT_ID, [
+            {
+                metric_category: 'satisfaction', respondent_count: 4, suppressed: false,
+                average: 4.25, distribution: { '1': 0, '2': 0, '3': 0, '4': 3, '5': 1 },
+            },
+            {
+                metric_category: 'flow', respondent_count: 4, suppressed: false,
+                average: 3, distribution: { '1': 0, '2': 1, '3': 2, '4': 1, '5': 0 },
+            },
+            // Answered by too few people: no average, no delta
+            { metric_category: 'safety', respondent_count: 2, suppressed: true, average: null, distribution: null },
+        ]),
+        previousPulse: pulse(PREVIOUS_SPRINT_ID, [
+            {
+                metric_category: 'satisfaction', respondent_count: 3, suppressed: false,
+                average: 3.5, distribution: { '1': 0, '2': 0, '3': 2, '4': 0, '5': 1 },
+            },
+            {
+                metric_category: 'flow', respondent_count: 3, suppressed: false,
+                average: 3.67, distribution: { '1': 0, '2': 0, '3': 1, '4': 2, '5': 0 },
+            },
+            {
+                metric_category: 'safety', respondent_count: 3, suppressed: false,
+                average: 4, distribution: { '1': 0, '2': 0, '3': 1, '4': 1, '5': 1 },
+            },
+        ]),
+        textAnswers: [
+            {
+                question_id: 'd4e5f6a7-1111-4000-8000-000000000001',
+                question_text: 'What went well?',
+                suppressed: false,
+                answers: [
+                    '<script>alert("x")</script>',
+                    'Pairing on the **refund** flow\nand the `retry` queue',
+                    'Standups | short & sweet',
+                ],
+            },
+            {
+                question_id: 'd4e5f6a7-1111-4000-8000-000000000002',
+                question_text: 'What should we stop doing?',
+                suppressed: true,
+                answers: [],
+            },
+        ],
+        kudos: [
+            {
+                id: 'e0000000-0000-4000-8000-000000000002',
+                sender_user_id: BOB,
+                receiver_user_id: CAROL,
+                category: null,
+                message: 'Thanks for the 2am <b>hotfix</b>',
+                created_at: '2026-04-08T09:00:00+00:00',
+            },
+            {
+                id: 'e0000000-0000-4000-8000-000000000001',
+                sender_user_id: ALICE,
+                receiver_user_id: BOB,
+                category: 'technical_win',
+                message: 'Retries _finally_ work',
+                created_at: '2026-04-07T16:30:00+00:00',
+            },
+        ],
+        names: new Map([[ALICE, 'Alice'], [BOB, 'Bob [QA]']]),
+    });
+}
+
+// ---------------------------------------------------------------------------
+// buildSprintReport
+// ---------------------------------------------------------------------------
+
+Deno.test('buildSprintReport compares categories with the previous sprint', () => {
+    const { pulse } = buildReport();
+
+    deepStrictEqual(pulse.categories, [
+        {
+            metric_category: 'satisfaction', respondent_count: 4, suppressed: false,
+            average: 4.25, previous_average: 3.5, delta: 0.75,
+        },
+        {
+            metric_category: 'flow', respondent_count: 4, suppressed: false,
+            average: 3, previous_average: 3.67, delta: -0.67,
+        },
+        {
+            metric_category: 'safety', respondent_count: 2, suppressed: true,
+            average: null, previous_average: 4, delta: null,
+        },
+    ]);
+});
+
+Deno.test('buildSprintReport sums carry overs and orders kudos oldest first', () => {
+    const report = buildReport();
+
+    strictEqual(report.points.carried_points, 5);
+    strictEqual(report.points.dropped_points, 1);
+    deepStrictEqual(report.kudos.map((k) => [k.sender_name, k.receiver_name]), [
+        ['Alice', 'Bob [QA]'],
+        ['Bob [QA]', 'A teammate'],
+    ]);
+});
+
+Deno.test('buildSprintReport matches its snapshot', async () => {
+    await assertSnapshot('report.json', JSON.stringify(buildReport(), null, 4) + '\n');
+});
+
+// ---------------------------------------------------------------------------
+// renderReportMarkdown
+// ---------------------------------------------------------------------------
+
+Deno.test('renderReportMarkdown escapes user text', () => {
+    const md = renderReportMarkdown(buildReport());
+
+    ok(md.startsWith('# Sprint report: Sprint 14 \\<Payments\\> \\| "Q2"\n'));
+    ok(md.includes('- **Team:** Core\\_Team \\#1\n'));
+    ok(md.includes('- \\<script\\>alert("x")\\</script\\>\n'));
+    // Line breaks inside an answer never start a new list item
+    ok(md.includes('- Pairing on the \\*\\*refund\\*\\* flow and the \\`retry\\` queue\n'));
+    ok(md.includes('- Standups \\| short & sweet\n'));
+});
+
+Deno.test('renderReportMarkdown hides suppressed categories and answers', () => {
+    const md = renderReportMarkdown(buildReport());
+
+    ok(md.includes('| Safety | Hidden (fewer than 3 respondents) | 4 | – |\n'));
+    ok(md.includes('### What should we stop doing?\n\nHidden (fewer than 3 respondents)\n'));
+});
+
+Deno.test('renderReportMarkdown matches its snapshot', async () => {
+    await assertSnapshot('report.md', renderReportMarkdown(buildReport()));
+});
+
+// ---------------------------------------------------------------------------
+// renderReportHtml
+// ---------------------------------------------------------------------------
+
+Deno.test('renderReportHtml escapes user text', () => {
+    const html = renderReportHtml(buildReport());
+
+    ok(html.includes('<title>Sprint report: Sprint 14 &lt;Payments&gt; | &quot;Q2&quot;</title>'));
+    ok(html.includes('<li>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</li>'));
+    ok(html.includes('Thanks for the 2am &lt;b&gt;hotfix&lt;/b&gt;'));
+    ok(!html.includes('<script>'));
+    ok(!html.includes('<b>'));
+});
+
+Deno.test('renderReportHtml hides suppressed categories and answers', () => {
+    const html = renderReportHtml(buildReport());
+
+    ok(html.includes('<tr><td>Safety</td><td>Hidden (fewer than 3 respondents)</td><td>4</td><td>–</td></tr>'));
+    ok(html.includes('<h3>What should we stop doing?</h3>\n<p>Hidden (fewer than 3 respondents)</p>'));
+});
+
+Deno.test('renderReportHtml matches its snapshot', async () => {
+    await assertSnapshot('report.html', renderReportHtml(buildReport()));
+});
@@ -0,0 +1,24 @@
+import { ValidationTargets } from 'hono';
+import { zValidator as honoZValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+
+/** What a validator middleware checks: the request part and its schema. */
+export type Validation = { target: keyof ValidationTargets; schema: z.ZodTypeAny };
+
+const validations = new WeakMap<object, Validation>();
+
+/**
+ * `@hono/zod-validator`'s `zValidator`, remembering the schema of each
+ * middleware it creates so the OpenAPI document is built from the routes'
+ * own validators (see `validationOf`).
+ */
+export const zValidator = ((...args: Parameters<typeof honoZValidator>) => {
+    const middleware = honoZValidator(...args);
+    validations.set(middleware, { target: args[0], schema: args[1] });
+    return middleware;
+}) as typeof honoZValidator;
+
+/** The validation a route handler performs, if it is a `zValidator` middleware. */
+export function validationOf(handler: unknown): Validation | undefined {
+    return typeof handler === 'function' ? validations.get(handler) : undefined;
+}
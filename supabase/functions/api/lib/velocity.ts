@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { SprintVelocitySchema, TeamVelocitySchema } from '@sprintpulse/shared/schemas/index.ts';
+
+type Sprint = Pick<
+    Database['public']['Tables']['sprints']['Row'],
+    'id' | 'name' | 'start_date' | 'end_date'
+>;
+type Commitment = Pick<
+    Database['public']['Tables']['sprint_commitments']['Row'],
+    'sprint_id' | 'committed_points'
+>;
+type CompletedItem = Pick<
+    Database['public']['Tables']['work_items']['Row'],
+    'sprint_id' | 'story_points' | 'completed_at'
+>;
+type HistoricalMetric = Pick<
+    Database['public']['Tables']['historical_metrics']['Row'],
+    'velocity_avg' | 'metric_date' | 'import_batch_id'
+>;
+
+export type SprintVelocity = z.infer<typeof SprintVelocitySchema>;
+export type TeamVelocity = z.infer<typeof TeamVelocitySchema>;
+
+/** Number of sprints each rolling average looks back over. */
+export const ROLLING_WINDOW = 3;
+
+/** Below this many native sprints, imported history fills the gap. */
+export const MIN_NATIVE_SPRINTS = 3;
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function mean(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return round(values.reduce((total, v) => total + v, 0) / values.length);
+}
+
+/** True when `completedAt` falls on or between the sprint's start and end dates. */
+function completedWithin(sprint: Sprint, completedAt: string): boolean {
+    const day = completedAt.slice(0, 10);
+    return day >= sprint.start_date && day <= sprint.end_date;
+}
+
+/**
+ * Computes committed vs completed points for each sprint, plus rolling
+ * averages in chronological order.
+ */
+export function buildSprintVelocities(
+    sprints: Sprint[],
+    commitments: Commitment[],
+    completedItems: CompletedItem[],
+): SprintVelocity[] {
+    const committedBySprint = new Map(commitments.map((c) => [c.sprint_id, c.committed_points ?? 0]));
+    const chronological = [...sprints].sort((a, b) => a.end_date.localeCompare(b.end_date));
+    const results: SprintVelocity[] = [];
+
+    for (const sprint of chronological) {
+        const done = completedItems.filter((item) =>
+            item.sprint_id === sprint.id
+            && item.completed_at !== null
+            && completedWithin(sprint, item.completed_at)
+        );
+        const completedPoints = done.reduce((total, item) => total + item.story_points, 0);
+        const committedPoints = committedBySprint.get(sprint.id) ?? null;
+
+        const sayDoRatio = committedPoints ? round(completedPoints / committedPoints) : null;
+        const window = [
+            ...results.slice(-(ROLLING_WINDOW - 1)),
+            { completed_points: completedPoints, say_do_ratio: sayDoRatio },
+        ];
+
+        const ratios = window
+            .map((w) => w.say_do_ratio)
+            .filter((r): r is number => r !== null);
+
+        results.push({
+            sprint_id: sprint.id,
+            name: sprint.name,
+            start_date: sprint.start_date,
+            end_date: sprint.end_date,
+            committed_points: committedPoints,
+            completed_points: completedPoints,
+            completed_items: done.length,
+            say_do_ratio: sayDoRatio,
+            rolling_avg_completed_points: mean(window.map((w) => w.completed_points)) ?? 0,
+            rolling_avg_say_do_ratio: mean(ratios),
+        });
+    }
+
+    return results;
+}
+
+/**
+ * Summarizes a team's velocity. With fewer than `MIN_NATIVE_SPRINTS` native
+ * sprints, the imported `velocity_avg` stands in for each missing sprint.
+ */
+export function buildTeamVelocity(
+    teamId: string,
+    sprints: SprintVelocity[],
+    historical: HistoricalMetric | null,
+): TeamVelocity {
+    const nativeAverage = mean(sprints.map((s) => s.completed_points));
+    const history = historical?.velocity_avg != null
+        ? {
+            velocity_avg: Number(historical.velocity_avg),
+            metric_date: historical.metric_date,
+            import_batch_id: historical.import_batch_id,
+        }
+        : null;
+
+    let source: TeamVelocity['source'] = 'native';
+    let average = nativeAverage;
+
+    if (sprints.length < MIN_NATIVE_SPRINTS && history) {
+        const missing = MIN_NATIVE_SPRINTS - sprints.length;
+        const nativeTotal = sprints.reduce((total, s) => total + s.completed_points, 0);
+
+        source = sprints.length === 0 ? 'historical' : 'blended';
+        average = round((nativeTotal + history.velocity_avg * missing) / MIN_NATIVE_SPRINTS);
+    }
+
+    return {
+        team_id: teamId,
+        rolling_window: ROLLING_WINDOW,
+        source,
+        average_completed_points: average,
+        average_say_do_ratio: mean(
+            sprints.map((s) => s.say_do_ratio).filter((r): r is number => r !== null)
+        ),
+        historical: history,
+        sprints,
+    };
+}
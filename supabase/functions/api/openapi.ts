@@ -0,0 +1,506 @@
+import { z } from 'zod';
+import {
+    AccountInvitationSchema,
+    AccountRoleEnum,
+    AccountSchema,
+    KudosSchema,
+    listResponseSchema,
+    PendingSurveySchema,
+    ProjectProgressSchema,
+    ProjectSchema,
+    SprintBurndownSchema,
+    SprintCloseOutSchema,
+    SprintPulseSchema,
+    SprintReportSchema,
+    SprintSchema,
+    SurveyAnswerSchema,
+    SurveyQuestionSchema,
+    SurveyResponseSchema,
+    SurveySchema,
+    TeamIntegrationSchema,
+    TeamMemberSchema,
+    TeamRoleEnum,
+    TeamSchema,
+    TeamVelocitySchema,
+    WorkItemSchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { RouteDoc } from './lib/openapi.ts';
+
+// ---------------------------------------------------------------------------
+// Route documentation for /api/openapi.json, keyed by "METHOD /path" as the
+// routes are registered (without the /api base path). Query parameters and
+// request bodies are read from the routes' validators; response schemas are
+// the shared Zod schemas listed here. A route missing here is still
+// published, under "Other", with generic responses.
+// ---------------------------------------------------------------------------
+
+const Uuid = z.string().uuid();
+
+const MessageSchema = z.object({ message: z.string() });
+
+const ImportReportSchema = z.object({
+    import_batch_id: z.string(),
+    dry_run: z.boolean(),
+    total_rows: z.number().int(),
+    valid_rows: z.number().int(),
+    imported_rows: z.number().int(),
+    errors: z.array(z.object({ row: z.number().int(), field: z.string().nullable(), message: z.string() })),
+});
+
+const SyncResultSchema = z.object({
+    message: z.string(),
+    external_id: z.string().optional(),
+    sprint_id: Uuid.nullable().optional(),
+});
+
+export const ROUTE_DOCS: Record<string, RouteDoc> = {
+    // Docs
+    'GET /openapi.json': { tag: 'Docs', summary: 'This document', hidden: true },
+    'GET /docs': { tag: 'Docs', summary: 'Interactive API docs', hidden: true },
+
+    // Accounts
+    'GET /accounts': {
+        tag: 'Accounts',
+        summary: "List the caller's accounts, with their role in each",
+        response: listResponseSchema(AccountSchema.extend({
+            account_members: z.array(z.object({ role: AccountRoleEnum })),
+        })),
+    },
+    'GET /accounts/:id': {
+        tag: 'Accounts',
+        summary: 'Get an account',
+        response: AccountSchema,
+        errors: [404],
+    },
+    'POST /accounts': {
+        tag: 'Accounts',
+        summary: 'Create an account owned by the caller, optionally with a first team',
+        response: AccountSchema.extend({ role: z.literal('owner'), team: TeamSchema.nullable() }),
+        status: 201,
+        errors: [409],
+    },
+
+    // Me
+    'GET /me/pending-surveys': {
+        tag: 'Me',
+        summary: "Surveys the caller has been asked to answer",
+        description: 'Pending assignments of active surveys. A daily survey is only listed on its own day; '
+            + 'other assignments are listed while their sprint is active or ended in the last 7 days, '
+            + 'and never for deleted teams. status filters by trigger_event.',
+        response: listResponseSchema(PendingSurveySchema),
+    },
+
+    // Invitations
+    'GET /invitations': {
+        tag: 'Invitations',
+        summary: "List an account's pending invitations",
+        response: listResponseSchema(AccountInvitationSchema),
+    },
+    'POST /invitations': {
+        tag: 'Invitations',
+        summary: 'Invite someone to an account',
+        description: 'The response includes the invitation token. It is only returned here.',
+        response: AccountInvitationSchema.extend({ token: z.string() }),
+        status: 201,
+        errors: [403],
+    },
+    'POST /invitations/accept': {
+        tag: 'Invitations',
+        summary: 'Accept an invitation as the invited user',
+        response: z.object({ account_id: Uuid, role: AccountRoleEnum, team_ids: z.array(Uuid) }),
+        errors: [403, 404, 409],
+    },
+    'DELETE /invitations/:id': {
+        tag: 'Invitations',
+        summary: 'Revoke a pending invitation',
+        response: AccountInvitationSchema,
+        errors: [404],
+    },
+
+    // Teams
+    'GET /teams': {
+        tag: 'Teams',
+        summary: 'List teams in the caller\'s accounts (deleted hidden unless requested)',
+        response: listResponseSchema(TeamSchema),
+    },
+    'GET /teams/mine': {
+        tag: 'Teams',
+        summary: 'List teams the caller is a member of, with their role',
+        response: listResponseSchema(TeamSchema.extend({
+            team_members: z.array(z.object({ role: TeamRoleEnum })),
+        })),
+    },
+    'POST /teams': {
+        tag: 'Teams',
+        summary: 'Create a team led by the caller',
+        response: TeamSchema,
+        status: 201,
+        errors: [403],
+    },
+    'GET /teams/:id': {
+        tag: 'Teams',
+        summary: 'Get a team',
+        description: 'Deleted teams are 404 unless includeDeleted=true.',
+        response: TeamSchema,
+        errors: [404],
+    },
+    'DELETE /teams/:id': {
+        tag: 'Teams',
+        summary: 'Soft-delete a team (account owners and admins)',
+        description: 'Its sprints, surveys, work items and kudos become read-only until the team is restored. '
+            + 'Deleted teams are purged after the retention window of the purge job.',
+        response: TeamSchema,
+        errors: [403, 404, 409],
+    },
+    'POST /teams/:id/restore': {
+        tag: 'Teams',
+        summary: 'Restore a soft-deleted team (account owners and admins)',
+        response: TeamSchema,
+        errors: [403, 404, 409],
+    },
+    'GET /teams/:id/velocity': {
+        tag: 'Teams',
+        summary: 'Velocity and say/do ratio over recent sprints',
+        response: TeamVelocitySchema,
+        errors: [404],
+    },
+    'GET /teams/:teamId/members': {
+        tag: 'Teams',
+        summary: "List a team's members (status filters by role)",
+        response: listResponseSchema(TeamMemberSchema.extend({
+            display_name: z.string().nullable(),
+            avatar_url: z.string().nullable(),
+        })),
+    },
+    'POST /teams/:teamId/members': {
+        tag: 'Teams',
+        summary: 'Add an account member to a team',
+        response: TeamMemberSchema,
+        status: 201,
+        errors: [403, 404, 409],
+    },
+    'PATCH /teams/:teamId/members/:userId': {
+        tag: 'Teams',
+        summary: "Change a member's role or title",
+        response: TeamMemberSchema,
+        errors: [403, 404, 409],
+    },
+    'DELETE /teams/:teamId/members/:userId': {
+        tag: 'Teams',
+        summary: 'Remove a member from a team',
+        response: MessageSchema,
+        errors: [404, 409],
+    },
+    'POST /teams/:teamId/historical-metrics/import': {
+        tag: 'Historical Metrics',
+        summary: 'Import metrics from a previous tool (CSV or JSON)',
+        response: ImportReportSchema,
+        status: 201,
+        description: 'Dry runs return 200 with the same report. Any row error rejects the whole import with 422.',
+        errors: [403, 404, 409, 422],
+    },
+    'DELETE /teams/:teamId/historical-metrics/imports/:batchId': {
+        tag: 'Historical Metrics',
+        summary: 'Undo an import',
+        response: MessageSchema.extend({ deleted_rows: z.number().int() }),
+        errors: [404],
+    },
+
+    // Sprints
+    'GET /sprints': {
+        tag: 'Sprints',
+        summary: 'List sprints for a team',
+        response: listResponseSchema(SprintSchema),
+    },
+    'POST /sprints': {
+        tag: 'Sprints',
+        summary: 'Create a planned sprint',
+        response: SprintSchema,
+        status: 201,
+        errors: [404, 409],
+    },
+    'PATCH /sprints/:id': {
+        tag: 'Sprints',
+        summary: 'Update or activate a sprint',
+        description: 'Setting status to active freezes commitments. Completing a sprint through this route is '
+            + 'rejected with 409; use POST /sprints/:id/complete so unfinished work is carried over.',
+        response: SprintSchema,
+        errors: [403, 404, 409],
+    },
+    'GET /sprints/:id/report': {
+        tag: 'Sprints',
+        summary: 'Retrospective report for a sprint',
+        description: 'format=md returns text/markdown and format=html an HTML page, rendered from '
+            + 'the JSON shown here. Text answers and pulse averages follow the pulse respondent threshold.',
+        response: SprintReportSchema,
+        errors: [403, 404],
+    },
+    'POST /sprints/:id/complete': {
+        tag: 'Sprints',
+        summary: 'Complete an active sprint and carry over unfinished work (team leads)',
+        description: 'Unfinished items move to the next planned sprint, a chosen planned sprint '
+            + 'or the backlog, except those listed in drop_item_ids. Each one is recorded as a carry-over.',
+        response: SprintCloseOutSchema,
+        errors: [403, 404, 409],
+    },
+    'DELETE /sprints/:id': {
+        tag: 'Sprints',
+        summary: 'Delete a sprint',
+        response: MessageSchema,
+        errors: [404, 409],
+    },
+    'GET /sprints/:id/pulse': {
+        tag: 'Sprints',
+        summary: 'Aggregated pulse survey results for a sprint',
+        response: SprintPulseSchema,
+        errors: [403, 404],
+    },
+    'GET /sprints/:id/burndown': {
+        tag: 'Sprints',
+        summary: 'Burndown series for a sprint',
+        response: SprintBurndownSchema,
+        errors: [404],
+    },
+
+    // Work items
+    'GET /work-items': {
+        tag: 'Work Items',
+        summary: 'List work items by sprint, team or assignee',
+        response: listResponseSchema(WorkItemSchema),
+    },
+    'GET /work-items/:id': {
+        tag: 'Work Items',
+        summary: 'Get a work item',
+        response: WorkItemSchema,
+        errors: [404],
+    },
+    'POST /work-items': {
+        tag: 'Work Items',
+        summary: 'Create a work item in a sprint or the team backlog',
+        response: WorkItemSchema,
+        status: 201,
+        errors: [404, 409],
+    },
+    'PATCH /work-items/:id': {
+        tag: 'Work Items',
+        summary: 'Update a work item',
+        response: WorkItemSchema,
+        errors: [404, 409],
+    },
+    'POST /work-items/:id/move': {
+        tag: 'Work Items',
+        summary: 'Move a work item to another sprint or the backlog',
+        response: WorkItemSchema,
+        errors: [404, 409],
+    },
+    'DELETE /work-items/:id': {
+        tag: 'Work Items',
+        summary: 'Delete a work item',
+        response: MessageSchema,
+        errors: [404, 409],
+    },
+
+    // Projects
+    'GET /projects': {
+        tag: 'Projects',
+        summary: 'List projects for a team (archived hidden unless requested)',
+        response: listResponseSchema(ProjectSchema),
+    },
+    'GET /projects/:id': {
+        tag: 'Projects',
+        summary: 'Get a project',
+        response: ProjectSchema,
+        errors: [404],
+    },
+    'GET /projects/:id/progress': {
+        tag: 'Projects',
+        summary: 'Progress roll-up across sprints',
+        response: ProjectProgressSchema,
+        errors: [404],
+    },
+    'POST /projects': {
+        tag: 'Projects',
+        summary: 'Create a project',
+        response: ProjectSchema,
+        status: 201,
+        errors: [403],
+    },
+    'PATCH /projects/:id': {
+        tag: 'Projects',
+        summary: 'Update a project',
+        response: ProjectSchema,
+        errors: [404],
+    },
+    'POST /projects/:id/archive': {
+        tag: 'Projects',
+        summary: 'Archive a project',
+        response: ProjectSchema,
+        errors: [404],
+    },
+
+    // Surveys
+    'GET /surveys': {
+        tag: 'Surveys',
+        summary: 'List surveys for an account (archived hidden unless requested)',
+        response: listResponseSchema(SurveySchema),
+    },
+    'GET /surveys/templates': {
+        tag: 'Surveys',
+        summary: 'List the system survey templates',
+        response: listResponseSchema(SurveySchema),
+    },
+    'GET /surveys/:id': {
+        tag: 'Surveys',
+        summary: 'Get a survey with its questions',
+        description: 'Only current questions by default; includeRetired=true adds those of earlier versions.',
+        response: SurveySchema.extend({ survey_questions: z.array(SurveyQuestionSchema) }),
+        errors: [404],
+    },
+    'POST /surveys': {
+        tag: 'Surveys',
+        summary: 'Create a survey with its questions',
+        response: z.object({
+            id: Uuid,
+            account_id: Uuid,
+            team_id: Uuid,
+            title: z.string(),
+            is_active: z.boolean(),
+            created_at: z.string(),
+            questions: z.array(SurveyQuestionSchema),
+        }),
+        status: 201,
+        errors: [403, 404, 409],
+    },
+    'POST /surveys/:id/clone': {
+        tag: 'Surveys',
+        summary: 'Clone a system template into a new team survey',
+        description: 'Copies the template\'s questions, metric categories, options and trigger_event.',
+        response: SurveySchema.extend({ questions: z.array(SurveyQuestionSchema) }),
+        status: 201,
+        errors: [403, 404],
+    },
+    'PATCH /surveys/:id': {
+        tag: 'Surveys',
+        summary: 'Edit a survey and its questions',
+        description: 'questions is the complete new list. Changing an answered question retires it and adds '
+            + 'a replacement in a new survey version, so past answers keep their wording.',
+        response: SurveySchema.extend({ new_version: z.boolean(), questions: z.array(SurveyQuestionSchema) }),
+        errors: [403, 404, 409],
+    },
+    'POST /surveys/:id/responses': {
+        tag: 'Surveys',
+        summary: "Submit (or resubmit) the caller's response for a sprint",
+        description: 'Returns 201 for a first submission and 200 when it replaces an earlier one. '
+            + 'Daily surveys keep one response per day (`occurrence_date`, default today).',
+        response: SurveyResponseSchema.omit({ user_id: true }).extend({
+            is_resubmission: z.boolean(),
+            answers: z.array(SurveyAnswerSchema),
+        }),
+        status: 201,
+        errors: [403, 404, 409],
+    },
+    'DELETE /surveys/:id': {
+        tag: 'Surveys',
+        summary: 'Delete a survey, or archive it if it has responses',
+        response: MessageSchema.extend({ archived: z.boolean() }),
+        errors: [403, 404, 409],
+    },
+
+    // Kudos
+    'GET /kudos': {
+        tag: 'Kudos',
+        summary: 'List kudos by team, sprint or recipient',
+        response: listResponseSchema(KudosSchema),
+    },
+    'POST /kudos': {
+        tag: 'Kudos',
+        summary: 'Give kudos to a teammate',
+        response: KudosSchema,
+        status: 201,
+        errors: [403, 404, 409],
+    },
+    'DELETE /kudos/:id': {
+        tag: 'Kudos',
+        summary: 'Delete kudos the caller gave',
+        response: MessageSchema,
+        errors: [403, 404, 409],
+    },
+
+    // Integrations
+    'GET /integrations': {
+        tag: 'Integrations',
+        summary: 'List integrations for a team',
+        response: listResponseSchema(TeamIntegrationSchema),
+    },
+    'POST /integrations': {
+        tag: 'Integrations',
+        summary: 'Connect a team to a GitHub repository or Jira project',
+        description: 'The response includes the webhook signing secret. It is only returned here.',
+        response: TeamIntegrationSchema.extend({ webhook_secret: z.string() }),
+        status: 201,
+        errors: [403, 409],
+    },
+    'PATCH /integrations/:id': {
+        tag: 'Integrations',
+        summary: "Update an integration's field mapping",
+        response: TeamIntegrationSchema,
+        errors: [403, 404],
+    },
+    'DELETE /integrations/:id': {
+        tag: 'Integrations',
+        summary: 'Disconnect an integration (synced work items are kept)',
+        response: MessageSchema,
+        errors: [404],
+    },
+    'POST /integrations/:id/backfill': {
+        tag: 'Integrations',
+        summary: 'Import every existing GitHub issue and pull request',
+        response: MessageSchema.extend({ synced: z.number().int() }),
+        errors: [400, 403, 404, 409, 502],
+    },
+    'POST /integrations/webhooks/github': {
+        tag: 'Webhooks',
+        summary: 'GitHub issue and pull request events',
+        description: 'Signed with the integration\'s webhook secret in `X-Hub-Signature-256`. Unhandled events return 202.',
+        auth: 'signature',
+        response: SyncResultSchema,
+        errors: [400, 404, 409],
+    },
+    'POST /integrations/webhooks/jira/:integrationId': {
+        tag: 'Webhooks',
+        summary: 'Jira Cloud issue events',
+        description: 'Signed with the integration\'s webhook secret in `X-Hub-Signature`. Unhandled events return 202; issue events without `fields` are ignored with 200.',
+        auth: 'signature',
+        response: SyncResultSchema,
+        errors: [400, 404, 409],
+    },
+
+    // Jobs
+    'POST /jobs/snapshots': {
+        tag: 'Jobs',
+        summary: 'Capture the daily snapshot of every active sprint',
+        auth: 'cron',
+        description: 'Re-running for the same date replaces that day\'s snapshots. Dates other than today are rejected.',
+        response: z.object({ snapshot_date: z.string(), sprints_captured: z.number().int() }),
+    },
+    'POST /jobs/purge-teams': {
+        tag: 'Jobs',
+        summary: 'Permanently delete teams soft-deleted longer than the retention window',
+        auth: 'cron',
+        response: z.object({ retention_days: z.number().int(), teams_purged: z.number().int() }),
+    },
+    'POST /jobs/survey-assignments': {
+        tag: 'Jobs',
+        summary: 'Assign scheduled surveys to the members of every active sprint',
+        description: 'Daily surveys for the date, plus sprint start surveys and sprint end surveys once end_date is reached.',
+        auth: 'cron',
+        response: z.object({
+            dispatch_date: z.string(),
+            assignments_created: z.object({
+                daily: z.number().int(),
+                sprint_start: z.number().int(),
+                sprint_end: z.number().int(),
+            }),
+        }),
+    },
+};
@@ -0,0 +1,111 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { CreateAccountSchema, ListQuerySchema } from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at', 'name'],
+    defaultSort: 'created_at',
+    dateColumn: 'created_at',
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List the caller's accounts, with their role in each
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', ListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data, error } = await applyList(
+            supabase
+                .from('accounts')
+                .select('*, account_members!inner(role)')
+                .eq('account_members.user_id', user.id),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id — Get a single account
+    // -----------------------------------------------------------------------
+    .get('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase
+            .from('accounts')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            // RLS hides accounts the caller does not belong to
+            if (error.code === 'PGRST116') {
+                return c.json({ error: 'Account not found' }, 404);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Onboard: create an account owned by the caller (via DB transaction RPC)
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateAccountSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const body = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('create_account', {
+            p_name: body.name,
+            p_slug: body.slug,
+            p_team_name: body.team?.name,
+            p_team_description: body.team?.description,
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 401);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>, 201);
+    });
+
+export default app;
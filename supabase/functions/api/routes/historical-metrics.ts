@@ -0,0 +1,164 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { ImportHistoricalMetricsSchema } from '@sprintpulse/shared/schemas/index.ts';
+import { parseCsv } from '../lib/csv.ts';
+import { RowError, validateRecords } from '../lib/historical-import.ts';
+import { zValidator } from '../lib/validator.ts';
+
+// Mounted under /teams/:teamId/historical-metrics
+const MAX_IMPORT_ROWS = 5000;
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // POST /import — Import metrics from a previous tool (CSV or JSON)
+    // -----------------------------------------------------------------------
+    .post('/import', zValidator('json', ImportHistoricalMetricsSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+        const input = c.req.valid('json');
+
+        const { data: team, error: teamError } = await supabase
+            .from('teams')
+            .select('account_id')
+            .eq('id', teamId)
+            .single();
+
+        if (teamError || !team) {
+            return c.json({ error: 'Team not found' }, 404);
+        }
+
+        const records = input.format === 'csv' ? parseCsv(input.data) : input.data;
+
+        if (records.length === 0) {
+            return c.json({ error: 'No rows to import' }, 400);
+        }
+        if (records.length > MAX_IMPORT_ROWS) {
+            return c.json({ error: `Too many rows: the limit is ${MAX_IMPORT_ROWS} per import` }, 400);
+        }
+
+        const { rows, errors } = validateRecords(records);
+
+        // Resolve member emails to user ids (team-level rows have no email)
+        const emails = [...new Set(rows.map((r) => r.data.email).filter((e): e is string => e !== null))];
+        const userIdsByEmail = new Map<string, string>();
+
+        if (emails.length > 0) {
+            const { data: users, error: usersError } = await supabase.rpc('resolve_account_user_ids', {
+                p_account_id: team.account_id,
+                p_emails: emails,
+            });
+
+            if (usersError) {
+                if (usersError.message.includes('Access Denied')) {
+                    return c.json({ error: usersError.message }, 403);
+                }
+                return c.json({ error: usersError.message }, 500);
+            }
+
+            for (const user of users) userIdsByEmail.set(user.email, user.user_id);
+        }
+
+        const rowErrors: RowError[] = [...errors];
+        const inserts: Database['public']['Tables']['historical_metrics']['Insert'][] = [];
+        const importBatchId = input.import_batch_id ?? `import-${crypto.randomUUID()}`;
+
+        for (const { row, data: { email, metric_date, ...metrics } } of rows) {
+            const userId = email ? userIdsByEmail.get(email) : null;
+
+            if (userId === undefined) {
+                rowErrors.push({ row, field: 'email', message: `No account member with email ${email}` });
+                continue;
+            }
+
+            inserts.push({
+                ...metrics,
+                team_id: teamId,
+                user_id: userId,
+                import_batch_id: importBatchId,
+                ...(metric_date ? { metric_date } : {}),
+            });
+        }
+
+        rowErrors.sort((a, b) => a.row - b.row);
+
+        const report = {
+            import_batch_id: importBatchId,
+            dry_run: input.dry_run,
+            total_rows: records.length,
+            valid_rows: inserts.length,
+            imported_rows: 0,
+            errors: rowErrors,
+        };
+
+        if (input.dry_run) {
+            return c.json(report);
+        }
+
+        // All-or-nothing: a partial import would be hard to reason about
+        if (rowErrors.length > 0) {
+            return c.json({ error: 'Import has invalid rows; nothing was imported', ...report }, 422);
+        }
+
+        const { count: existing } = await supabase
+            .from('historical_metrics')
+            .select('*', { count: 'exact', head: true })
+            .eq('team_id', teamId)
+            .eq('import_batch_id', importBatchId);
+
+        if (existing) {
+            return c.json({ error: `Import batch ${importBatchId} already exists for this team` }, 409);
+        }
+
+        // A single bulk insert is one statement, so it commits or fails as a whole
+        const { error } = await supabase.from('historical_metrics').insert(inserts);
+
+        if (error) {
+            // RLS: only team leads and account owners/admins may import
+            if (error.code === '42501') {
+                return c.json({ error: 'Only team leads and account admins can import metrics' }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ ...report, imported_rows: inserts.length }, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /imports/:batchId — Undo an import
+    // -----------------------------------------------------------------------
+    .delete('/imports/:batchId', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+        const batchId = c.req.param('batchId');
+
+        const { data, error } = await supabase
+            .from('historical_metrics')
+            .delete()
+            .eq('team_id', teamId)
+            .eq('import_batch_id', batchId)
+            .select('id');
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        // RLS hides rows the caller may not delete, so both cases look empty
+        if (data.length === 0) {
+            return c.json({ error: 'Import batch not found' }, 404);
+        }
+
+        return c.json({ message: 'Import deleted', deleted_rows: data.length }, 200);
+    });
+
+export default app;
@@ -0,0 +1,517 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    CreateIntegrationSchema,
+    JiraIntegrationSettingsSchema,
+    IntegrationListQuerySchema,
+    UpdateIntegrationSchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { randomToken, verifySignature } from '../lib/crypto.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { GitHubIssue, mapGitHubIssue, upsertGitHubItems } from '../lib/github.ts';
+import { currentJiraSprint, JiraIssue, JiraSprint, mapJiraIssue } from '../lib/jira.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const BACKFILL_MAX_PAGES = 50; // 100 issues per page
+
+type Integration = Database['public']['Tables']['team_integrations']['Row'];
+
+/** An integration as the API returns it: `settings` is always an object. */
+type IntegrationBody = Omit<Integration, 'settings'> & { settings: Record<string, unknown> };
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at'],
+    defaultSort: 'created_at',
+};
+
+/**
+ * Validates provider-specific settings. Jira settings are stored with their
+ * defaults filled in; GitHub has no settings.
+ */
+function parseSettings(provider: string, settings: Record<string, unknown> | undefined) {
+    if (provider === 'jira') {
+        return JiraIntegrationSettingsSchema.safeParse(settings ?? {});
+    }
+    return z.object({}).strict().safeParse(settings ?? {});
+}
+
+/**
+ * Resolves the mirrored sprint for a Jira sprint, creating (or refreshing)
+ * it as a planned sprint when Jira provides dates. Resolves to a null id
+ * when the sprint cannot be mirrored, which leaves the item in the backlog;
+ * database errors are returned rather than treated that way.
+ */
+async function resolveJiraSprint(
+    supabase: SupabaseClient<Database>,
+    integration: Integration,
+    sprint: JiraSprint,
+) {
+    if (!sprint.startDate || !sprint.endDate) {
+        const { data, error } = await supabase
+            .from('sprints')
+            .select('id')
+            .eq('team_id', integration.team_id)
+            .eq('external_id', String(sprint.id))
+            .maybeSingle();
+
+        return { sprintId: data?.id ?? null, error };
+    }
+
+    // status is left out so an existing sprint keeps its lifecycle state
+    const { data, error } = await supabase
+        .from('sprints')
+        .upsert({
+            team_id: integration.team_id,
+            account_id: integration.account_id,
+            external_id: String(sprint.id),
+            name: sprint.name,
+            start_date: sprint.startDate.slice(0, 10),
+            end_date: sprint.endDate.slice(0, 10),
+        }, { onConflict: 'team_id,external_id' })
+        .select('id')
+        .single();
+
+    return { sprintId: data?.id ?? null, error };
+}
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List integrations for a team
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', IntegrationListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { teamId } = c.req.valid('query');
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data, error } = await applyList(
+            supabase.from('team_integrations').select('*').eq('team_id', teamId),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data as IntegrationBody[], plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Connect a team to an external tracker (via DB transaction RPC)
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateIntegrationSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const input = c.req.valid('json');
+        const settings = parseSettings(input.provider, input.settings);
+
+        if (!settings.success) {
+            return c.json({ error: 'Invalid settings', details: settings.error.issues }, 400);
+        }
+
+        const webhookSecret = randomToken();
+
+        const { data, error } = await supabase.rpc('create_team_integration', {
+            p_team_id: input.team_id,
+            p_provider: input.provider,
+            p_external_key: input.external_key,
+            p_webhook_secret: webhookSecret,
+            p_access_token: input.access_token,
+            p_settings: settings.data,
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            // 23505: unique (provider, external_key)
+            if (error.code === '23505') {
+                return c.json({ error: 'This repository or project is already connected to a team' }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        // The secret is only ever shown here; configure it on the provider's webhook
+        return c.json({ ...(data as Record<string, unknown>), webhook_secret: webhookSecret }, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:id — Update an integration's mapping config
+    // -----------------------------------------------------------------------
+    .patch('/:id', zValidator('json', UpdateIntegrationSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const body = c.req.valid('json');
+
+        const { data: integration, error: integrationError } = await supabase
+            .from('team_integrations')
+            .select('provider')
+            .eq('id', id)
+            .single();
+
+        if (integrationError || !integration) {
+            return c.json({ error: 'Integration not found' }, 404);
+        }
+
+        const settings = parseSettings(integration.provider, body.settings);
+
+        if (!settings.success) {
+            return c.json({ error: 'Invalid settings', details: settings.error.issues }, 400);
+        }
+
+        const { data, error } = await supabase
+            .from('team_integrations')
+            .update({ settings: settings.data })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            // RLS hides the row from members who cannot manage the team
+            if (error.code === 'PGRST116') {
+                return c.json({ error: 'Only team leads and account admins can manage integrations' }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as IntegrationBody);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Disconnect an integration (synced work items are kept)
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase
+            .from('team_integrations')
+            .delete()
+            .eq('id', id)
+            .select('id');
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        if (data.length === 0) {
+            return c.json({ error: 'Integration not found' }, 404);
+        }
+
+        return c.json({ message: 'Integration deleted' }, 200);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/backfill — Import every existing GitHub issue and PR (idempotent)
+    // -----------------------------------------------------------------------
+    .post('/:id/backfill', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data: integration, error: integrationError } = await supabase
+            .from('team_integrations')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (integrationError || !integration) {
+            return c.json({ error: 'Integration not found' }, 404);
+        }
+
+        if (integration.provider !== 'github') {
+            return c.json({ error: 'Backfill is only supported for GitHub integrations' }, 400);
+        }
+
+        const { data: canManage } = await supabase.rpc('can_manage_team', {
+            p_team_id: integration.team_id,
+        });
+
+        if (!canManage) {
+            return c.json({ error: 'Only team leads and account admins can run a backfill' }, 403);
+        }
+
+        // Secrets are only readable with the service role
+        const admin = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        const { data: secrets } = await admin
+            .from('team_integration_secrets')
+            .select('access_token')
+            .eq('integration_id', id)
+            .single();
+
+        if (!secrets?.access_token) {
+            return c.json({ error: 'Integration has no access token; add one to run a backfill' }, 400);
+        }
+
+        let synced = 0;
+
+        for (let page = 1; page <= BACKFILL_MAX_PAGES; page++) {
+            const res = await fetch(
+                `${GITHUB_API_URL}/repos/${integration.external_key}/issues?state=all&per_page=100&page=${page}`,
+                {
+                    headers: {
+                        Accept: 'application/vnd.github+json',
+                        Authorization: `Bearer ${secrets.access_token}`,
+                        'User-Agent': 'sprint-pulse',
+                        'X-GitHub-Api-Version': '2022-11-28',
+                    },
+                },
+            );
+
+            if (!res.ok) {
+                return c.json({
+                    error: `GitHub API request failed with status ${res.status}`,
+                    details: { synced },
+                }, 502);
+            }
+
+            const issues: GitHubIssue[] = await res.json();
+            if (issues.length === 0) break;
+
+            const upsertError = await upsertGitHubItems(
+                admin,
+                integration,
+                issues.map((issue) => mapGitHubIssue(integration.external_key, issue)),
+            );
+
+            if (upsertError) {
+                if (upsertError.message.includes('Conflict')) {
+                    return c.json({ error: upsertError.message, details: { synced } }, 409);
+                }
+                return c.json({ error: upsertError.message, details: { synced } }, 500);
+            }
+
+            synced += issues.length;
+            if (issues.length < 100) break;
+        }
+
+        return c.json({ message: 'Backfill complete', synced });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /webhooks/github — GitHub issue / pull_request events
+    // Authenticated by the HMAC signature, not a user JWT.
+    // -----------------------------------------------------------------------
+    .post('/webhooks/github', async (c) => {
+        const event = c.req.header('X-GitHub-Event');
+        const rawBody = await c.req.text();
+
+        let payload: {
+            action?: string;
+            repository?: { full_name?: string };
+            issue?: GitHubIssue;
+            pull_request?: GitHubIssue;
+        };
+        try {
+            payload = JSON.parse(rawBody);
+        } catch {
+            return c.json({ error: 'Invalid JSON payload' }, 400);
+        }
+
+        const repository = payload.repository?.full_name?.toLowerCase();
+        if (!repository) {
+            return c.json({ error: 'Payload has no repository' }, 400);
+        }
+
+        const admin = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        const { data: integration } = await admin
+            .from('team_integrations')
+            .select('*, team_integration_secrets(webhook_secret)')
+            .eq('provider', 'github')
+            .eq('external_key', repository)
+            .maybeSingle();
+
+        const secret = integration?.team_integration_secrets?.webhook_secret;
+
+        if (!integration || !secret) {
+            return c.json({ error: 'No integration for this repository' }, 404);
+        }
+
+        if (!await verifySignature(secret, rawBody, c.req.header('X-Hub-Signature-256'))) {
+            return c.json({ error: 'Invalid signature' }, 401);
+        }
+
+        const issue = event === 'issues' ? payload.issue
+            : event === 'pull_request' ? payload.pull_request && { ...payload.pull_request, pull_request: {} }
+            : undefined;
+
+        if (!issue) {
+            // ping and any event we don't sync
+            return c.json({ message: `Ignored event: ${event}` }, 202);
+        }
+
+        const item = mapGitHubIssue(repository, issue);
+
+        if (payload.action === 'deleted') {
+            const { error } = await admin
+                .from('work_items')
+                .delete()
+                .eq('team_id', integration.team_id)
+                .eq('provider', 'github')
+                .eq('external_id', item.external_id);
+
+            if (error) {
+                if (error.message.includes('Conflict')) {
+                    return c.json({ error: error.message }, 409);
+                }
+                return c.json({ error: error.message }, 500);
+            }
+            return c.json({ message: 'Work item deleted', external_id: item.external_id });
+        }
+
+        const upsertError = await upsertGitHubItems(admin, integration, [item]);
+
+        if (upsertError) {
+            if (upsertError.message.includes('Conflict')) {
+                return c.json({ error: upsertError.message }, 409);
+            }
+            return c.json({ error: upsertError.message }, 500);
+        }
+
+        return c.json({ message: 'Work item synced', external_id: item.external_id });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /webhooks/jira/:integrationId — Jira Cloud issue events
+    // Authenticated by the HMAC signature of the webhook secret, not a user JWT.
+    // -----------------------------------------------------------------------
+    .post('/webhooks/jira/:integrationId', async (c) => {
+        const integrationId = c.req.param('integrationId');
+        const rawBody = await c.req.text();
+
+        const admin = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        const { data: integration } = await admin
+            .from('team_integrations')
+            .select('*, team_integration_secrets(webhook_secret)')
+            .eq('id', integrationId)
+            .eq('provider', 'jira')
+            .maybeSingle();
+
+        const secret = integration?.team_integration_secrets?.webhook_secret;
+
+        if (!integration || !secret) {
+            return c.json({ error: 'Integration not found' }, 404);
+        }
+
+        if (!await verifySignature(secret, rawBody, c.req.header('X-Hub-Signature'))) {
+            return c.json({ error: 'Invalid signature' }, 401);
+        }
+
+        let payload: { webhookEvent?: string; issue?: JiraIssue };
+        try {
+            payload = JSON.parse(rawBody);
+        } catch {
+            return c.json({ error: 'Invalid JSON payload' }, 400);
+        }
+
+        const { webhookEvent, issue } = payload;
+
+        if (!issue || !webhookEvent?.startsWith('jira:issue_')) {
+            return c.json({ message: `Ignored event: ${webhookEvent}` }, 202);
+        }
+
+        // Some events (e.g. deletes sent by automation rules) carry no fields
+        if (!issue.fields) {
+            return c.json({ message: `Ignored event: ${webhookEvent} without issue fields` }, 200);
+        }
+
+        if (issue.fields.project?.key.toLowerCase() !== integration.external_key) {
+            return c.json({ error: 'Issue does not belong to this integration\'s project' }, 400);
+        }
+
+        if (webhookEvent === 'jira:issue_deleted') {
+            const { error } = await admin
+                .from('work_items')
+                .delete()
+                .eq('team_id', integration.team_id)
+                .eq('provider', 'jira')
+                .eq('external_id', issue.key);
+
+            if (error) {
+                if (error.message.includes('Conflict')) {
+                    return c.json({ error: error.message }, 409);
+                }
+                return c.json({ error: error.message }, 500);
+            }
+            return c.json({ message: 'Work item deleted', external_id: issue.key });
+        }
+
+        const settings = JiraIntegrationSettingsSchema.parse(integration.settings);
+        const item = mapJiraIssue(issue, settings);
+
+        // Re-point sprint_id only when the payload includes the sprint field
+        const jiraSprint = currentJiraSprint(issue, settings);
+        let sprintId: string | null | undefined = jiraSprint === undefined ? undefined : null;
+
+        if (jiraSprint) {
+            const resolved = await resolveJiraSprint(admin, integration, jiraSprint);
+            if (resolved.error) {
+                if (resolved.error.message.includes('Conflict')) {
+                    return c.json({ error: resolved.error.message }, 409);
+                }
+                return c.json({ error: resolved.error.message }, 500);
+            }
+            sprintId = resolved.sprintId;
+        }
+
+        const { error } = await admin
+            .from('work_items')
+            .upsert({
+                ...item,
+                ...(sprintId !== undefined ? { sprint_id: sprintId } : {}),
+                team_id: integration.team_id,
+                account_id: integration.account_id,
+            }, { onConflict: 'team_id,provider,external_id' });
+
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ message: 'Work item synced', external_id: issue.key, sprint_id: sprintId ?? null });
+    });
+
+export default app;
@@ -0,0 +1,180 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    AcceptInvitationSchema,
+    CreateInvitationSchema,
+    InvitationListQuerySchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { randomToken, sha256Hex } from '../lib/crypto.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything but token_hash
+const INVITATION_COLUMNS =
+    'id, account_id, email, role, team_ids, expires_at, invited_by, accepted_by, accepted_at, revoked_at, created_at';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at', 'expires_at', 'email'],
+    defaultSort: 'created_at',
+    dateColumn: 'created_at',
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List an account's pending invitations (owners/admins)
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', InvitationListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { accountId } = c.req.valid('query');
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data, error } = await applyList(
+            supabase
+                .from('account_invitations')
+                .select(INVITATION_COLUMNS)
+                .eq('account_id', accountId)
+                .is('accepted_at', null)
+                .is('revoked_at', null)
+                .gt('expires_at', new Date().toISOString()),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Invite someone to an account (owners/admins)
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateInvitationSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        const body = c.req.valid('json');
+        const teamIds = [...new Set(body.team_ids)];
+
+        if (teamIds.length > 0) {
+            const { data: teams, error: teamsError } = await supabase
+                .from('teams')
+                .select('id')
+                .eq('account_id', body.account_id)
+                .is('deleted_at', null)
+                .in('id', teamIds);
+
+            if (teamsError) {
+                return c.json({ error: teamsError.message }, 500);
+            }
+            if (teams.length !== teamIds.length) {
+                return c.json({ error: 'All team_ids must be teams of this account' }, 400);
+            }
+        }
+
+        const token = randomToken();
+
+        const { data, error } = await supabase
+            .from('account_invitations')
+            .insert({
+                account_id: body.account_id,
+                email: body.email,
+                role: body.role,
+                team_ids: teamIds,
+                token_hash: await sha256Hex(token),
+                expires_at: new Date(Date.now() + body.expires_in_days * DAY_MS).toISOString(),
+                invited_by: user.id,
+            })
+            .select(INVITATION_COLUMNS)
+            .single();
+
+        if (error) {
+            // 42501: RLS — only owners/admins can invite
+            if (error.code === '42501') {
+                return c.json({ error: 'Only account owners and admins can invite members' }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        // The token is only ever shown here; deliver it to the invitee
+        return c.json({ ...data, token }, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /accept — Accept an invitation as the signed-in invitee
+    // -----------------------------------------------------------------------
+    .post('/accept', zValidator('json', AcceptInvitationSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { token } = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('accept_account_invitation', {
+            p_token_hash: await sha256Hex(token),
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Revoke a pending invitation (owners/admins)
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data, error } = await supabase.rpc('revoke_account_invitation', {
+            p_invitation_id: c.req.param('id'),
+        });
+
+        if (error) {
+            // Invitations of other accounts look the same as missing ones
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    });
+
+export default app;
@@ -0,0 +1,99 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    PurgeTeamsJobQuerySchema,
+    SnapshotJobQuerySchema,
+    SurveyDispatchJobQuerySchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { timingSafeEqual } from '../lib/crypto.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // Scheduled jobs are called by cron, not by users. They authenticate with a
+    // shared secret and run with the service role, so they bypass RLS.
+    // -----------------------------------------------------------------------
+    .use('*', async (c, next) => {
+        const secret = Deno.env.get('CRON_SECRET');
+
+        if (!secret || !timingSafeEqual(c.req.header('X-Cron-Secret') ?? '', secret)) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        await next();
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /snapshots — Capture today's snapshot for every active sprint
+    // -----------------------------------------------------------------------
+    .post('/snapshots', zValidator('query', SnapshotJobQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        // Only today is accepted (see SnapshotJobQuerySchema)
+        const snapshotDate = c.req.valid('query').date ?? new Date().toISOString().slice(0, 10);
+
+        const { data, error } = await supabase.rpc('capture_sprint_snapshots', {
+            p_snapshot_date: snapshotDate,
+        });
+
+        if (error) {
+            if (error.message.includes('Invalid Date')) {
+                return c.json({ error: error.message }, 400);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ snapshot_date: snapshotDate, sprints_captured: data });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /survey-assignments — Assign daily / sprint start / sprint end surveys
+    // to every member of each active sprint's team
+    // -----------------------------------------------------------------------
+    .post('/survey-assignments', zValidator('query', SurveyDispatchJobQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        const dispatchDate = c.req.valid('query').date ?? new Date().toISOString().slice(0, 10);
+
+        const { data, error } = await supabase.rpc('dispatch_survey_assignments', {
+            p_date: dispatchDate,
+        });
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ dispatch_date: dispatchDate, assignments_created: data as Record<string, number> });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /purge-teams — Permanently delete teams soft-deleted longer than the
+    // retention window, with their sprints, surveys and everything else
+    // -----------------------------------------------------------------------
+    .post('/purge-teams', zValidator('query', PurgeTeamsJobQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        );
+
+        const { retention_days } = c.req.valid('query');
+
+        const { data, error } = await supabase.rpc('purge_deleted_teams', {
+            p_retention_days: retention_days,
+        });
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ retention_days, teams_purged: data });
+    });
+
+export default app;
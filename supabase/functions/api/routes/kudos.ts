@@ -0,0 +1,178 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { GiveKudosSchema, KudosListQuerySchema } from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at'],
+    defaultSort: '-created_at',
+    dateColumn: 'created_at',
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List kudos by team, sprint or recipient
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', KudosListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { teamId, sprintId, recipientId } = c.req.valid('query');
+
+        if (!teamId && !sprintId && !recipientId) {
+            return c.json({
+                error: 'Missing required query parameter: one of teamId, sprintId or recipientId',
+            }, 400);
+        }
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        let query = supabase.from('kudos').select('*');
+
+        if (teamId) query = query.eq('team_id', teamId);
+        if (sprintId) query = query.eq('sprint_id', sprintId);
+        if (recipientId) query = query.eq('receiver_user_id', recipientId);
+
+        const { data, error } = await applyList(query, plan);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Give kudos to a teammate
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', GiveKudosSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const body = c.req.valid('json');
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        if (body.receiver_user_id === user.id) {
+            return c.json({ error: 'You cannot give kudos to yourself' }, 400);
+        }
+
+        // Resolve the team's account_id (required by DB but not in Zod schema)
+        const { data: team, error: teamError } = await supabase
+            .from('teams')
+            .select('account_id')
+            .eq('id', body.team_id)
+            .single();
+
+        if (teamError || !team) {
+            return c.json({ error: 'Team not found' }, 404);
+        }
+
+        const { data: receiver } = await supabase
+            .from('team_members')
+            .select('user_id')
+            .eq('team_id', body.team_id)
+            .eq('user_id', body.receiver_user_id)
+            .maybeSingle();
+
+        if (!receiver) {
+            return c.json({ error: 'Recipient is not a member of this team' }, 400);
+        }
+
+        if (body.sprint_id) {
+            const { data: sprint } = await supabase
+                .from('sprints')
+                .select('team_id')
+                .eq('id', body.sprint_id)
+                .maybeSingle();
+
+            if (!sprint || sprint.team_id !== body.team_id) {
+                return c.json({ error: 'Sprint not found for this team' }, 404);
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('kudos')
+            .insert({
+                ...body,
+                account_id: team.account_id,
+                sender_user_id: user.id,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            // RLS: sender must be a member of the team
+            if (error.code === '42501') {
+                return c.json({ error: 'You are not a member of this team' }, 403);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Delete kudos you gave
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        const { data: kudos, error: kudosError } = await supabase
+            .from('kudos')
+            .select('sender_user_id')
+            .eq('id', id)
+            .single();
+
+        if (kudosError || !kudos) {
+            return c.json({ error: 'Kudos not found' }, 404);
+        }
+
+        if (kudos.sender_user_id !== user.id) {
+            return c.json({ error: 'You can only delete kudos you gave' }, 403);
+        }
+
+        const { error } = await supabase
+            .from('kudos')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ message: 'Kudos deleted' }, 200);
+    });
+
+export default app;
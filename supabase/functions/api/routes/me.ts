@@ -0,0 +1,68 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import { ListQuerySchema } from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const PENDING_SURVEY_OPTIONS: ListOptions = {
+    sortable: ['occurrence_date', 'created_at'],
+    defaultSort: 'occurrence_date',
+    dateColumn: 'occurrence_date',
+    status: { column: 'trigger_event', values: ['daily', 'sprint_start', 'sprint_end'] },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a sprint's surveys stay pending after its end date. */
+const ENDED_SPRINT_GRACE_DAYS = 7;
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET /pending-surveys — Surveys the caller has been asked to answer
+    // Daily assignments only count on their own day; missed ones drop off.
+    // Sprint start/end assignments drop off once the sprint is neither active
+    // nor recently ended, and with their team when it is deleted.
+    // -----------------------------------------------------------------------
+    .get('/pending-surveys', zValidator('query', ListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        const plan = planList(c.req.valid('query'), PENDING_SURVEY_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const endedSince = new Date(Date.now() - ENDED_SPRINT_GRACE_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+        const { data, error } = await applyList(
+            supabase
+                .from('survey_assignments')
+                .select('*, survey:surveys!inner(id, title, trigger_event), sprint:sprints!inner(id, name, team_id, team:teams!inner())')
+                .eq('user_id', user.id)
+                .is('completed_at', null)
+                .eq('survey.is_active', true)
+                .is('survey.archived_at', null)
+                .or(`status.eq.active,end_date.gte.${endedSince}`, { referencedTable: 'sprint' })
+                .is('sprint.team.deleted_at', null)
+                .or(`trigger_event.neq.daily,occurrence_date.eq.${today}`),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    });
+
+export default app;
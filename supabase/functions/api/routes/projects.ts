@@ -0,0 +1,279 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    CreateProjectSchema,
+    ProjectListQuerySchema,
+    ProjectProgressSchema,
+    ProjectStatusEnum,
+    SprintStatusEnum,
+    UpdateProjectSchema,
+    WorkItemStatusEnum,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at', 'name'],
+    defaultSort: '-created_at',
+    dateColumn: 'created_at',
+    status: { column: 'status', values: ProjectStatusEnum.options },
+};
+
+type ProjectProgress = z.infer<typeof ProjectProgressSchema>;
+type ByStatus = ProjectProgress['by_status'];
+
+type ProgressItem = {
+    story_points: number;
+    status: string;
+    sprint_id: string | null;
+    sprints: { name: string; start_date: string; end_date: string; status: string } | null;
+};
+
+function emptyByStatus(): ByStatus {
+    return {
+        todo: { points: 0, items: 0 },
+        in_progress: { points: 0, items: 0 },
+        review: { points: 0, items: 0 },
+        done: { points: 0, items: 0 },
+    };
+}
+
+function addTo(byStatus: ByStatus, total: { points: number; items: number }, item: ProgressItem) {
+    const status = WorkItemStatusEnum.parse(item.status);
+    byStatus[status].points += item.story_points;
+    byStatus[status].items += 1;
+    total.points += item.story_points;
+    total.items += 1;
+}
+
+/** Rolls work items up by status, overall and per sprint. */
+function summarizeProgress(projectId: string, items: ProgressItem[]): ProjectProgress {
+    const total = { points: 0, items: 0 };
+    const byStatus = emptyByStatus();
+    const sprints = new Map<string | null, ProjectProgress['sprints'][number]>();
+
+    for (const item of items) {
+        addTo(byStatus, total, item);
+
+        let sprint = sprints.get(item.sprint_id);
+        if (!sprint) {
+            sprint = {
+                sprint_id: item.sprint_id,
+                name: item.sprints?.name ?? null,
+                start_date: item.sprints?.start_date ?? null,
+                end_date: item.sprints?.end_date ?? null,
+                status: item.sprints ? SprintStatusEnum.parse(item.sprints.status) : null,
+                total: { points: 0, items: 0 },
+                by_status: emptyByStatus(),
+            };
+            sprints.set(item.sprint_id, sprint);
+        }
+        addTo(sprint.by_status, sprint.total, item);
+    }
+
+    return {
+        project_id: projectId,
+        total,
+        by_status: byStatus,
+        percent_complete: total.points > 0
+            ? Math.round((byStatus.done.points / total.points) * 1000) / 10
+            : null,
+        // Oldest sprint first, backlog last
+        sprints: [...sprints.values()].sort((a, b) => {
+            if (a.start_date === null) return 1;
+            if (b.start_date === null) return -1;
+            return a.start_date.localeCompare(b.start_date);
+        }),
+    };
+}
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List projects for a team (archived hidden unless requested)
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', ProjectListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { teamId, includeArchived } = c.req.valid('query');
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        let query = supabase
+            .from('projects')
+            .select('*')
+            .eq('team_id', teamId);
+
+        // An explicit status filter replaces the default of hiding archived projects
+        if (!plan.statuses && includeArchived !== 'true') {
+            query = query.neq('status', 'archived');
+        }
+
+        const { data, error } = await applyList(query, plan);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id — Get a single project
+    // -----------------------------------------------------------------------
+    .get('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase
+            .from('projects')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id/progress — Points and items by status across every sprint
+    // -----------------------------------------------------------------------
+    .get('/:id/progress', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data: project, error: projectError } = await supabase
+            .from('projects')
+            .select('id')
+            .eq('id', id)
+            .single();
+
+        if (projectError || !project) {
+            return c.json({ error: 'Project not found' }, 404);
+        }
+
+        const { data: items, error } = await supabase
+            .from('work_items')
+            .select('story_points, status, sprint_id, sprints(name, start_date, end_date, status)')
+            .eq('project_id', id);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(summarizeProgress(id, items));
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Create a new project
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateProjectSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const body = c.req.valid('json');
+
+        const { data, error } = await supabase
+            .from('projects')
+            .insert(body)
+            .select()
+            .single();
+
+        if (error) {
+            // RLS: only team members can create projects for a team
+            if (error.code === '42501') {
+                return c.json({ error: 'You are not a member of this team' }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:id — Update a project
+    // -----------------------------------------------------------------------
+    .patch('/:id', zValidator('json', UpdateProjectSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const body = c.req.valid('json');
+
+        const { data, error } = await supabase
+            .from('projects')
+            .update(body)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/archive — Archive a project (work items keep their link)
+    // -----------------------------------------------------------------------
+    .post('/:id/archive', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase
+            .from('projects')
+            .update({ status: 'archived' })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json(data);
+    });
+
+export default app;
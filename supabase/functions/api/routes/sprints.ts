@@ -1,130 +1,506 @@
 import { Hono } from 'hono';
-import { zValidator } from '@hono/zod-validator';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@sprintpulse/shared/database.types.ts';
-import { CreateSprintSchema, UpdateSprintSchema } from '@sprintpulse/shared/schemas/index.ts';
-
-const app = new Hono();
-
-// ---------------------------------------------------------------------------
-// GET / — List sprints for a team
-// ---------------------------------------------------------------------------
-app.get('/', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const teamId = c.req.query('teamId');
-    if (!teamId) {
-        return c.json({ error: 'Missing required query parameter: teamId' }, 400);
-    }
-
-    const { data, error } = await supabase
-        .from('sprints')
-        .select('*')
-        .eq('team_id', teamId)
-        .order('end_date', { ascending: false });
-
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
-
-    return c.json(data);
-});
-
-// ---------------------------------------------------------------------------
-// POST / — Create a new sprint
-// ---------------------------------------------------------------------------
-app.post('/', zValidator('json', CreateSprintSchema), async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const body = c.req.valid('json');
-
-    // Resolve the team's account_id (required by DB but not in Zod schema)
-    const { data: team, error: teamError } = await supabase
-        .from('teams')
-        .select('account_id')
-        .eq('id', body.team_id)
-        .single();
-
-    if (teamError || !team) {
-        return c.json({ error: 'Team not found' }, 404);
-    }
-
-    const { data, error } = await supabase
-        .from('sprints')
-        .insert({ ...body, account_id: team.account_id })
-        .select()
-        .single();
-
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
-
-    return c.json(data, 201);
-});
-
-// ---------------------------------------------------------------------------
-// PATCH /:id — Update / close a sprint
-// ---------------------------------------------------------------------------
-app.patch('/:id', zValidator('json', UpdateSprintSchema), async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const id = c.req.param('id');
-    const body = c.req.valid('json');
-
-    const { data, error } = await supabase
-        .from('sprints')
-        .update(body)
-        .eq('id', id)
-        .select()
-        .single();
-
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
-
-    return c.json(data);
-});
-
-// ---------------------------------------------------------------------------
-// DELETE /:id — Delete a sprint
-// ---------------------------------------------------------------------------
-app.delete('/:id', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const id = c.req.param('id');
-
-    const { error } = await supabase
-        .from('sprints')
-        .delete()
-        .eq('id', id);
-
-    if (error) {
-        // FK violation: work items still reference this sprint (RESTRICT)
-        if (error.code === '23503') {
+import {
+    CompleteSprintSchema,
+    CreateSprintSchema,
+    SprintListQuerySchema,
+    SprintReportQuerySchema,
+    SprintStatusEnum,
+    SprintStatusTransitions,
+    UpdateSprintSchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { buildBurndown, resolveCommittedPoints } from '../lib/burndown.ts';
+import { buildSprintVelocities } from '../lib/velocity.ts';
+import {
+    buildSprintReport,
+    renderReportHtml,
+    renderReportMarkdown,
+    SprintPulse,
+    SprintReport,
+} from '../lib/report.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['start_date', 'end_date', 'name', 'created_at'],
+    defaultSort: '-end_date',
+    dateColumn: 'start_date',
+    status: { column: 'status', values: SprintStatusEnum.options },
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List sprints for a team
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', SprintListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { teamId } = c.req.valid('query');
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data, error } = await applyList(
+            supabase.from('sprints').select('*').eq('team_id', teamId),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Create a new sprint
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateSprintSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        // Sprints enter the lifecycle as planned (the schema only accepts that);
+        // activation freezes commitments
+        const body = c.req.valid('json');
+
+        // Resolve the team's account_id (required by DB but not in Zod schema)
+        const { data: team, error: teamError } = await supabase
+            .from('teams')
+            .select('account_id')
+            .eq('id', body.team_id)
+            .single();
+
+        if (teamError || !team) {
+            return c.json({ error: 'Team not found' }, 404);
+        }
+
+        const { data, error } = await supabase
+            .from('sprints')
+            .insert({ ...body, account_id: team.account_id })
+            .select()
+            .single();
+
+        if (error) {
+            // Raised by prevent_deleted_team_changes: the team is soft-deleted
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id/pulse — Aggregated pulse results for a sprint
+    // -----------------------------------------------------------------------
+    .get('/:id/pulse', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data: sprint, error: sprintError } = await supabase
+            .from('sprints')
+            .select('team_id')
+            .eq('id', id)
+            .single();
+
+        if (sprintError || !sprint) {
+            return c.json({ error: 'Sprint not found' }, 404);
+        }
+
+        // Aggregated and thresholded in the database; no per-respondent rows
+        const { data, error } = await supabase.rpc('get_sprint_pulse', { p_sprint_id: id });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id/burndown — Daily burndown / burnup series with an ideal line
+    // -----------------------------------------------------------------------
+    .get('/:id/burndown', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data: sprint, error: sprintError } = await supabase
+            .from('sprints')
+            .select('id, start_date, end_date')
+            .eq('id', id)
+            .single();
+
+        if (sprintError || !sprint) {
+            return c.json({ error: 'Sprint not found' }, 404);
+        }
+
+        const { data: snapshots, error } = await supabase
+            .from('sprint_snapshots')
+            .select('*')
+            .eq('sprint_id', id)
+            .is('user_id', null)
+            .order('snapshot_date', { ascending: true });
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        const { data: commitment } = await supabase
+            .from('sprint_commitments')
+            .select('committed_points')
+            .eq('sprint_id', id)
+            .is('user_id', null)
+            .maybeSingle();
+
+        const today = new Date().toISOString().slice(0, 10);
+
+        return c.json(buildBurndown(sprint, snapshots, resolveCommittedPoints(commitment, snapshots), today));
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id/report — Retrospective report as JSON, Markdown or HTML
+    // Combines delivery, burndown, pulse (with deltas against the team's previous
+    // completed sprint), anonymized text answers and kudos.
+    // -----------------------------------------------------------------------
+    .get('/:id/report', zValidator('query', SprintReportQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { format } = c.req.valid('query');
+
+        const { data: sprint, error: sprintError } = await supabase
+            .from('sprints')
+            .select('id, team_id, name, goal, status, start_date, end_date, team:teams(name)')
+            .eq('id', id)
+            .single();
+
+        if (sprintError || !sprint) {
+            return c.json({ error: 'Sprint not found' }, 404);
+        }
+
+        // Also the access check: only team members may read the pulse
+        const { data: pulse, error: pulseError } = await supabase.rpc('get_sprint_pulse', {
+            p_sprint_id: id,
+        });
+
+        if (pulseError) {
+            if (pulseError.message.includes('Access Denied')) {
+                return c.json({ error: pulseError.message }, 403);
+            }
+            return c.json({ error: pulseError.message }, 500);
+        }
+
+        const { data: textAnswers, error: textAnswersError } = await supabase.rpc('get_sprint_text_answers', {
+            p_sprint_id: id,
+        });
+
+        if (textAnswersError) {
+            return c.json({ error: textAnswersError.message }, 500);
+        }
+
+        const { data: previous, error: previousError } = await supabase
+            .from('sprints')
+            .select('id, name')
+            .eq('team_id', sprint.team_id)
+            .eq('status', 'completed')
+            .lt('start_date', sprint.start_date)
+            .order('start_date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (previousError) {
+            return c.json({ error: previousError.message }, 500);
+        }
+
+        // Pulse deltas compare against the team's previous completed sprint
+        let previousPulse: SprintPulse | null = null;
+        if (previous) {
+            const { data, error } = await supabase.rpc('get_sprint_pulse', { p_sprint_id: previous.id });
+
+            if (error) {
+                return c.json({ error: error.message }, 500);
+            }
+
+            previousPulse = data as SprintPulse;
+        }
+
+        const { data: commitment, error: commitmentError } = await supabase
+            .from('sprint_commitments')
+            .select('sprint_id, committed_points')
+            .eq('sprint_id', id)
+            .is('user_id', null)
+            .maybeSingle();
+
+        if (commitmentError) {
+            return c.json({ error: commitmentError.message }, 500);
+        }
+
+        const { data: completedItems, error: itemsError } = await supabase
+            .from('work_items')
+            .select('sprint_id, story_points, completed_at')
+            .eq('sprint_id', id)
+            .not('completed_at', 'is', null);
+
+        if (itemsError) {
+            return c.json({ error: itemsError.message }, 500);
+        }
+
+        const { data: snapshots, error: snapshotsError } = await supabase
+            .from('sprint_snapshots')
+            .select('*')
+            .eq('sprint_id', id)
+            .is('user_id', null)
+            .order('snapshot_date', { ascending: true });
+
+        if (snapshotsError) {
+            return c.json({ error: snapshotsError.message }, 500);
+        }
+
+        const { data: carryOvers, error: carryOversError } = await supabase
+            .from('sprint_carry_overs')
+            .select('outcome, story_points')
+            .eq('sprint_id', id);
+
+        if (carryOversError) {
+            return c.json({ error: carryOversError.message }, 500);
+        }
+
+        const { data: kudos, error: kudosError } = await supabase
+            .from('kudos')
+            .select('id, sender_user_id, receiver_user_id, category, message, created_at')
+            .eq('sprint_id', id);
+
+        if (kudosError) {
+            return c.json({ error: kudosError.message }, 500);
+        }
+
+        const userIds = [...new Set(
+            kudos.flatMap((k) => [k.sender_user_id, k.receiver_user_id]).filter((u): u is string => u !== null)
+        )];
+
+        const { data: profiles, error: profilesError } = await supabase
+            .from('profiles')
+            .select('user_id, display_name')
+            .in('user_id', userIds);
+
+        if (profilesError) {
+            return c.json({ error: profilesError.message }, 500);
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const { team, ...sprintFields } = sprint;
+
+        const report = buildSprintReport({
+            sprint: sprintFields as SprintReport['sprint'],
+            teamName: team?.name ?? '',
+            previousSprint: previous,
+            velocity: buildSprintVelocities(
+                [sprint],
+                commitment ? [commitment] : [],
+                completedItems,
+            )[0],
+            carryOvers,
+            burndown: buildBurndown(
+                sprint,
+                snapshots,
+                resolveCommittedPoints(commitment, snapshots),
+                today,
+            ),
+            pulse: pulse as SprintPulse,
+            previousPulse,
+            textAnswers: textAnswers as SprintReport['text_answers'],
+            kudos,
+            names: new Map(
+                profiles
+                    .filter((p) => p.display_name)
+                    .map((p) => [p.user_id, p.display_name!])
+            ),
+        });
+
+        if (format === 'md') {
+            return c.body(renderReportMarkdown(report), 200, {
+                'Content-Type': 'text/markdown; charset=utf-8',
+            });
+        }
+        if (format === 'html') {
+            return c.html(renderReportHtml(report));
+        }
+        return c.json(report);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/complete — Close out an active sprint, carrying over unfinished work
+    // -----------------------------------------------------------------------
+    .post('/:id/complete', zValidator('json', CompleteSprintSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { carry_over, target_sprint_id, drop_item_ids } = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('complete_sprint', {
+            p_sprint_id: id,
+            p_carry_over: carry_over,
+            p_target_sprint_id: target_sprint_id,
+            p_drop_item_ids: drop_item_ids,
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict') || error.message.includes('Invalid Transition')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:id — Update / activate a sprint
+    // -----------------------------------------------------------------------
+    .patch('/:id', zValidator('json', UpdateSprintSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { status, ...fields } = c.req.valid('json');
+
+        const { data: sprint, error: sprintError } = await supabase
+            .from('sprints')
+            .select('status')
+            .eq('id', id)
+            .single();
+
+        if (sprintError || !sprint) {
+            return c.json({ error: 'Sprint not found' }, 404);
+        }
+
+        const current = sprint.status as keyof typeof SprintStatusTransitions;
+        const isTransition = status !== undefined && status !== current;
+
+        if (isTransition && !SprintStatusTransitions[current].includes(status)) {
             return c.json({
-                error: 'Cannot delete sprint: it still has associated work items. Remove them first.',
+                error: `Invalid status transition: ${current} → ${status}`,
             }, 409);
         }
-        return c.json({ error: error.message }, 500);
-    }
 
-    return c.json({ message: 'Sprint deleted' }, 200);
-});
+        // Completion has to carry over unfinished work, which only the close-out does
+        if (isTransition && status === 'completed') {
+            return c.json({
+                error: 'Sprints are completed with POST /sprints/:id/complete',
+            }, 409);
+        }
+
+        // Activation runs through the RPC so the commitment freeze and the other
+        // field changes are applied atomically
+        const isActivation = isTransition && status === 'active';
+
+        if (isActivation) {
+            const { error: activateError } = await supabase.rpc('activate_sprint', {
+                p_sprint_id: id,
+                p_changes: fields,
+            });
+
+            if (activateError) {
+                if (activateError.message.includes('Access Denied')) {
+                    return c.json({ error: activateError.message }, 403);
+                }
+                // 23505: unique index sprints_one_active_per_team
+                if (
+                    activateError.message.includes('Conflict')
+                    || activateError.message.includes('Invalid Transition')
+                    || activateError.code === '23505'
+                ) {
+                    return c.json({ error: activateError.message }, 409);
+                }
+                return c.json({ error: activateError.message }, 500);
+            }
+        }
+
+        const changes = isActivation ? {} : fields;
+
+        // Nothing left to write (e.g. an activation): return the fresh row
+        const { data, error } = Object.keys(changes).length === 0
+            ? await supabase.from('sprints').select().eq('id', id).single()
+            : await supabase.from('sprints').update(changes).eq('id', id).select().single();
+
+        if (error) {
+            if (error.message.includes('Conflict') || error.message.includes('Invalid Transition')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Delete a sprint
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { error } = await supabase
+            .from('sprints')
+            .delete()
+            .eq('id', id);
+
+        // Work items and kudos are detached (ON DELETE SET NULL); work items
+        // fall back to the backlog
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ message: 'Sprint deleted' }, 200);
+    });
 
 export default app;
@@ -1,120 +1,448 @@
 import { Hono } from 'hono';
-import { zValidator } from '@hono/zod-validator';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '@sprintpulse/shared/database.types.ts';
-import { CreateSurveySchema } from '@sprintpulse/shared/schemas/index.ts';
-
-const app = new Hono();
-
-// ---------------------------------------------------------------------------
-// GET / — List surveys for an account
-// ---------------------------------------------------------------------------
-app.get('/', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const accountId = c.req.query('accountId');
-    if (!accountId) {
-        return c.json({ error: 'Missing required query parameter: accountId' }, 400);
-    }
+import {
+    CloneSurveySchema,
+    CreateSurveySchema,
+    ListQuerySchema,
+    QuestionTypeToResponseType,
+    ResponseTypeEnum,
+    ResponseTypeToQuestionType,
+    SubmitSurveyResponseSchema,
+    SurveyListQuerySchema,
+    SurveyQuerySchema,
+    UpdateSurveySchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at', 'title'],
+    defaultSort: '-created_at',
+    dateColumn: 'created_at',
+};
+
+type SurveyQuestion = Database['public']['Tables']['survey_questions']['Row'];
+
+type AnswerColumns = {
+    question_id: string;
+    value_number: number | null;
+    value_text: string | null;
+    value_json: Database['public']['Tables']['survey_answers']['Row']['value_json'];
+};
+
+/**
+ * Maps a `survey_questions` row to the API's question shape: `response_type`
+ * becomes `question_type`, everything else passes through.
+ */
+function toApiQuestion({ response_type, ...question }: SurveyQuestion) {
+    const parsed = ResponseTypeEnum.safeParse(response_type);
+    return {
+        ...question,
+        options: question.options as string[] | null, // Only ever a list of choices
+        question_type: parsed.success ? ResponseTypeToQuestionType[parsed.data] : response_type,
+    };
+}
+
+/**
+ * Checks a submitted value against the question's `response_type` and maps it
+ * onto the `survey_answers` value columns. Returns an error message instead
+ * when the value does not fit the question.
+ */
+function toAnswerColumns(question: SurveyQuestion, value: number | string): AnswerColumns | string {
+    const answer: AnswerColumns = {
+        question_id: question.id,
+        value_number: null,
+        value_text: null,
+        value_json: null,
+    };
 
-    const { data, error } = await supabase
-        .from('surveys')
-        .select('*')
-        .eq('account_id', accountId);
+    switch (question.response_type) {
+        // emoji_mood is a 1–5 mood scale rendered as faces by the client
+        case 'scale_1_5':
+        case 'emoji_mood':
+            if (typeof value !== 'number' || value < 1 || value > 5) {
+                return 'Expected an integer between 1 and 5';
+            }
+            answer.value_number = value;
+            return answer;
 
-    if (error) {
-        return c.json({ error: error.message }, 500);
+        case 'text':
+            if (typeof value !== 'string' || value.trim() === '') {
+                return 'Expected a non-empty string';
+            }
+            answer.value_text = value.trim();
+            return answer;
+
+        case 'single_select': {
+            const options = Array.isArray(question.options) ? question.options : [];
+            if (typeof value !== 'string' || !options.includes(value)) {
+                return `Expected one of: ${options.join(', ')}`;
+            }
+            answer.value_text = value;
+            return answer;
+        }
+
+        default:
+            return `Unsupported question type: ${question.response_type}`;
     }
+}
 
-    return c.json(data);
-});
-
-// ---------------------------------------------------------------------------
-// GET /:id — Get a full survey with its questions
-// ---------------------------------------------------------------------------
-app.get('/:id', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const id = c.req.param('id');
-
-    const { data, error } = await supabase
-        .from('surveys')
-        .select('*, survey_questions(*)')
-        .eq('id', id)
-        .order('order_index', { ascending: true, referencedTable: 'survey_questions' })
-        .single();
-
-    if (error) {
-        return c.json(
-            { error: error.message },
-            error.code === 'PGRST116' ? 404 : 500
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List surveys for an account (archived ones with includeArchived=true)
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', SurveyListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
         );
-    }
 
-    return c.json(data);
-});
-
-// ---------------------------------------------------------------------------
-// POST / — Create a survey with questions (via DB transaction RPC)
-// ---------------------------------------------------------------------------
-app.post('/', zValidator('json', CreateSurveySchema), async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const input = c.req.valid('json');
-
-    const { data, error } = await supabase.rpc('create_survey_with_questions', {
-        p_account_id: input.account_id,
-        p_team_id: input.team_id ?? undefined,
-        p_title: input.title,
-        p_is_active: input.is_active,
-        p_questions: input.questions,
-    });
+        const { accountId, includeArchived } = c.req.valid('query');
 
-    if (error) {
-        if (error.message.includes('Access Denied')) {
-            return c.json({ error: error.message }, 403);
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
         }
-        return c.json({ error: error.message }, 500);
-    }
 
-    return c.json(data as Record<string, unknown>, 201);
-});
+        let query = supabase
+            .from('surveys')
+            .select('*')
+            .eq('account_id', accountId);
 
+        if (includeArchived !== 'true') {
+            query = query.is('archived_at', null);
+        }
 
-// ---------------------------------------------------------------------------
-// DELETE /:id — Delete a survey (questions cascade automatically)
-// ---------------------------------------------------------------------------
-app.delete('/:id', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
+        const { data, error } = await applyList(query, plan);
 
-    const id = c.req.param('id');
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
 
-    const { error } = await supabase
-        .from('surveys')
-        .delete()
-        .eq('id', id);
+        return c.json(toPage(data, plan));
+    })
 
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
+    // -----------------------------------------------------------------------
+    // GET /templates — List the system templates surveys can be cloned from
+    // -----------------------------------------------------------------------
+    .get('/templates', zValidator('query', ListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data, error } = await applyList(
+            supabase
+                .from('surveys')
+                .select('*')
+                .eq('is_system_template', true)
+                .is('team_id', null),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id — Get a full survey with its current questions
+    // (every version's questions with includeRetired=true)
+    // -----------------------------------------------------------------------
+    .get('/:id', zValidator('query', SurveyQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        let query = supabase
+            .from('surveys')
+            .select('*, survey_questions(*)')
+            .eq('id', id);
+
+        if (c.req.valid('query').includeRetired !== 'true') {
+            query = query.is('survey_questions.retired_in_version', null);
+        }
+
+        const { data, error } = await query
+            .order('order_index', { ascending: true, referencedTable: 'survey_questions' })
+            .single();
+
+        if (error) {
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json({ ...data, survey_questions: data.survey_questions.map(toApiQuestion) });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Create a survey with questions (via DB transaction RPC)
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateSurveySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const input = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('create_survey_with_questions', {
+            p_account_id: input.account_id,
+            p_team_id: input.team_id,
+            p_title: input.title,
+            p_is_active: input.is_active,
+            p_trigger_event: input.trigger_event,
+            p_questions: input.questions.map(({ question_type, ...question }) => ({
+                ...question,
+                response_type: QuestionTypeToResponseType[question_type],
+            })),
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        const survey = data as Record<string, unknown> & { questions: SurveyQuestion[] };
+        return c.json({ ...survey, questions: survey.questions.map(toApiQuestion) }, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/clone — Copy a system template into a new team survey
+    // -----------------------------------------------------------------------
+    .post('/:id/clone', zValidator('json', CloneSurveySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
 
-    return c.json({ message: 'Survey deleted' }, 200);
-});
+        const id = c.req.param('id');
+        const input = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('clone_survey_template', {
+            p_template_id: id,
+            p_team_id: input.team_id,
+            p_title: input.title,
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        const survey = data as Record<string, unknown> & { questions: SurveyQuestion[] };
+        return c.json({ ...survey, questions: survey.questions.map(toApiQuestion) }, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:id — Edit a survey; changing answered questions makes a new version
+    // -----------------------------------------------------------------------
+    .patch('/:id', zValidator('json', UpdateSurveySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const input = c.req.valid('json');
+
+        const { data, error } = await supabase.rpc('update_survey', {
+            p_survey_id: id,
+            p_title: input.title,
+            p_is_active: input.is_active,
+            p_trigger_event: input.trigger_event,
+            p_questions: input.questions?.map(({ question_type, ...question }) => ({
+                ...question,
+                response_type: QuestionTypeToResponseType[question_type],
+            })),
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        const survey = data as Record<string, unknown> & { questions: SurveyQuestion[] };
+        return c.json({ ...survey, questions: survey.questions.map(toApiQuestion) });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/responses — Submit (or resubmit) a response for a sprint
+    // -----------------------------------------------------------------------
+    .post('/:id/responses', zValidator('json', SubmitSurveyResponseSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const input = c.req.valid('json');
+
+        // Only the current version's questions can be answered
+        const { data: survey, error: surveyError } = await supabase
+            .from('surveys')
+            .select('archived_at, survey_questions(*)')
+            .eq('id', id)
+            .is('survey_questions.retired_in_version', null)
+            .single();
+
+        if (surveyError) {
+            return c.json(
+                { error: surveyError.code === 'PGRST116' ? 'Survey not found' : surveyError.message },
+                surveyError.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        if (survey.archived_at) {
+            return c.json({ error: 'Survey is archived' }, 409);
+        }
+
+        const questions = survey.survey_questions;
+
+        // Validate every answer against its question before touching the DB
+        const questionsById = new Map(questions.map((q) => [q.id, q]));
+        const answered = new Set<string>();
+        const answers: AnswerColumns[] = [];
+        const details: { question_id: string; message: string }[] = [];
+
+        for (const { question_id, value } of input.answers) {
+            const question = questionsById.get(question_id);
+
+            if (!question) {
+                details.push({ question_id, message: 'Question does not belong to this survey' });
+                continue;
+            }
+            if (answered.has(question_id)) {
+                details.push({ question_id, message: 'Question answered more than once' });
+                continue;
+            }
+            if (value === null) continue;
+
+            answered.add(question_id);
+
+            const result = toAnswerColumns(question, value);
+            if (typeof result === 'string') {
+                details.push({ question_id, message: result });
+            } else {
+                answers.push(result);
+            }
+        }
+
+        for (const question of questions) {
+            if (question.is_required && !answered.has(question.id)) {
+                details.push({ question_id: question.id, message: 'Answer is required' });
+            }
+        }
+
+        if (details.length > 0) {
+            return c.json({ error: 'Invalid answers', details }, 400);
+        }
+
+        const { data, error } = await supabase.rpc('submit_survey_response', {
+            p_survey_id: id,
+            p_sprint_id: input.sprint_id,
+            p_is_confidential: input.is_confidential,
+            p_answers: answers,
+            p_occurrence_date: input.occurrence_date,
+        });
+
+        if (error) {
+            // Raised by validate_survey_answer and submit_survey_response
+            // (20260504093000_validate_survey_answers.sql)
+            if (error.message.includes('Invalid Answer')) {
+                return c.json({ error: error.message }, 400);
+            }
+            // Raised by validate_survey_response_occurrence
+            if (error.message.includes('Invalid Date')) {
+                return c.json({ error: error.message }, 400);
+            }
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        const response = data as Record<string, unknown>;
+        return c.json(response, response.is_resubmission ? 200 : 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Delete a survey, or archive it once it has responses so that
+    // past answers survive
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase.rpc('delete_survey', { p_survey_id: id });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        const { archived } = data as { archived: boolean };
+        return c.json({ message: archived ? 'Survey archived' : 'Survey deleted', archived }, 200);
+    });
 
 export default app;
@@ -0,0 +1,212 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    AddTeamMemberSchema,
+    ListQuerySchema,
+    TeamRoleEnum,
+    UpdateTeamMemberSchema,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+// Mounted under /teams/:teamId/members
+// Members have no id; user_id is unique within a team. `status` filters by role.
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['joined_at'],
+    defaultSort: 'joined_at',
+    dateColumn: 'joined_at',
+    status: { column: 'role', values: TeamRoleEnum.options },
+    key: 'user_id',
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List a team's members with their profiles
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', ListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        const { data: rows, error } = await applyList(
+            supabase.from('team_members').select('*').eq('team_id', teamId),
+            plan,
+        );
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        const page = toPage(rows, plan);
+
+        // team_members references auth.users, so profiles cannot be embedded
+        const { data: profiles, error: profilesError } = await supabase
+            .from('profiles')
+            .select('user_id, display_name, avatar_url')
+            .in('user_id', page.data.map((m) => m.user_id));
+
+        if (profilesError) {
+            return c.json({ error: profilesError.message }, 500);
+        }
+
+        const profilesById = new Map(profiles.map((p) => [p.user_id, p]));
+
+        return c.json({
+            ...page,
+            data: page.data.map((m) => ({
+                ...m,
+                display_name: profilesById.get(m.user_id)?.display_name ?? null,
+                avatar_url: profilesById.get(m.user_id)?.avatar_url ?? null,
+            })),
+        });
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Add an account member to the team
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', AddTeamMemberSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+        const body = c.req.valid('json');
+
+        const { data: team, error: teamError } = await supabase
+            .from('teams')
+            .select('account_id')
+            .eq('id', teamId)
+            .single();
+
+        if (teamError || !team) {
+            return c.json({ error: 'Team not found' }, 404);
+        }
+
+        const { data: canManage } = await supabase.rpc('can_manage_team', { p_team_id: teamId });
+
+        if (!canManage) {
+            return c.json({ error: 'Only team leads and account admins can manage team members' }, 403);
+        }
+
+        const { data: accountMember } = await supabase
+            .from('account_members')
+            .select('user_id')
+            .eq('account_id', team.account_id)
+            .eq('user_id', body.user_id)
+            .maybeSingle();
+
+        if (!accountMember) {
+            return c.json({ error: 'User is not a member of this account' }, 400);
+        }
+
+        const { data, error } = await supabase
+            .from('team_members')
+            .insert({
+                team_id: teamId,
+                user_id: body.user_id,
+                role: body.role,
+                title: body.title,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            // 23505: primary key (team_id, user_id)
+            if (error.code === '23505') {
+                return c.json({ error: 'User is already a member of this team' }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:userId — Change a member's role or title
+    // -----------------------------------------------------------------------
+    .patch('/:userId', zValidator('json', UpdateTeamMemberSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+        const userId = c.req.param('userId');
+        const body = c.req.valid('json');
+
+        const { data: canManage } = await supabase.rpc('can_manage_team', { p_team_id: teamId });
+
+        if (!canManage) {
+            return c.json({ error: 'Only team leads and account admins can manage team members' }, 403);
+        }
+
+        const { data, error } = await supabase
+            .from('team_members')
+            .update(body)
+            .eq('team_id', teamId)
+            .eq('user_id', userId)
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === 'PGRST116') {
+                return c.json({ error: 'Team member not found' }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:userId — Remove a member (members may also remove themselves)
+    // -----------------------------------------------------------------------
+    .delete('/:userId', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const teamId = c.req.param('teamId')!;
+        const userId = c.req.param('userId');
+
+        const { data, error } = await supabase
+            .from('team_members')
+            .delete()
+            .eq('team_id', teamId)
+            .eq('user_id', userId)
+            .select('user_id');
+
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        // RLS hides rows the caller may not delete, so both cases look empty
+        if (data.length === 0) {
+            return c.json({ error: 'Team member not found' }, 404);
+        }
+
+        return c.json({ message: 'Team member removed' }, 200);
+    });
+
+export default app;
@@ -1,120 +1,253 @@
 import { Hono } from 'hono';
-import { zValidator } from '@hono/zod-validator';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '../../../../packages/shared/src/database.types.ts';
-import { CreateTeamSchema } from '../../../../packages/shared/src/schemas/index.ts';
-
-const app = new Hono();
-
-app.get('/', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const { data, error } = await supabase.from('teams').select('*');
-
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
-
-    return c.json(data);
-});
-
-app.get('/mine', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
-        return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    const { data, error } = await supabase
-        .from('teams')
-        .select('*, team_members!inner(role)')
-        .eq('team_members.user_id', user.id);
-
-    if (error) {
-        return c.json({ error: error.message }, 500);
-    }
-
-    return c.json(data);
-});
-
-app.post('/', zValidator('json', CreateTeamSchema), async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const body = c.req.valid('json');
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-        return c.json({ error: 'Unauthorized' }, 401);
-    }
-
-    // 1. Insert Team
-    const { data: team, error: teamError } = await supabase
-        .from('teams')
-        .insert(body)
-        .select()
-        .single();
-
-    if (teamError) {
-        return c.json({ error: teamError.message }, 500);
-    }
-
-    // 2. Insert Member (Lead)
-    try {
-        const { error: memberError } = await supabase
-            .from('team_members')
-            .insert({
-                team_id: team.id,
-                user_id: user.id,
-                role: 'lead'
-            });
-
-        if (memberError) throw memberError;
-    } catch (error) {
-        // Edge case: Team created but member insertion failed.
-        // Ideally we might want to revert the team creation, but given REST limitations
-        // and requirements, we return an error.
-        return c.json({
-            error: 'Team created but failed to assign lead role.',
-            details: error,
-            team
-        }, 500);
-    }
-
-    return c.json(team, 201);
-});
-
-app.get('/:id', async (c) => {
-    const supabase = createClient<Database>(
-        Deno.env.get('SUPABASE_URL')!,
-        Deno.env.get('SUPABASE_ANON_KEY')!,
-        { global: { headers: { Authorization: c.req.header('Authorization')! } } }
-    );
-
-    const id = c.req.param('id');
-    const { data, error } = await supabase
-        .from('teams')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-    if (error) {
-        return c.json({ error: error.message }, 404);
-    }
-
-    return c.json(data);
-});
+import {
+    CreateTeamSchema,
+    TeamListQuerySchema,
+    TeamQuerySchema,
+    VelocityQuerySchema,
+} from '../../../../packages/shared/src/schemas/index.ts';
+import { buildSprintVelocities, buildTeamVelocity } from '../lib/velocity.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['name', 'created_at'],
+    defaultSort: 'name',
+    dateColumn: 'created_at',
+};
+
+const app = new Hono()
+    .get('/', zValidator('query', TeamListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        let query = supabase.from('teams').select('*');
+
+        // Soft-deleted teams are hidden unless asked for
+        if (c.req.valid('query').includeDeleted !== 'true') {
+            query = query.is('deleted_at', null);
+        }
+
+        const { data, error } = await applyList(query, plan);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    .get('/mine', zValidator('query', TeamListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return c.json({ error: 'Unauthorized' }, 401);
+        }
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        let query = supabase
+            .from('teams')
+            .select('*, team_members!inner(role)')
+            .eq('team_members.user_id', user.id);
+
+        if (c.req.valid('query').includeDeleted !== 'true') {
+            query = query.is('deleted_at', null);
+        }
+
+        const { data, error } = await applyList(query, plan);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    .post('/', zValidator('json', CreateTeamSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const body = c.req.valid('json');
+
+        // Team + lead membership in one transaction (see create_team_with_lead)
+        const { data, error } = await supabase.rpc('create_team_with_lead', {
+            p_account_id: body.account_id,
+            p_name: body.name,
+            p_description: body.description,
+        });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>, 201);
+    })
+
+    .get('/:id', zValidator('query', TeamQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        let query = supabase
+            .from('teams')
+            .select('*')
+            .eq('id', id);
+
+        if (c.req.valid('query').includeDeleted !== 'true') {
+            query = query.is('deleted_at', null);
+        }
+
+        const { data, error } = await query.single();
+
+        if (error) {
+            return c.json({ error: error.message }, 404);
+        }
+
+        return c.json(data);
+    })
+
+    // Soft delete: the team's sprints and surveys stay readable but frozen until
+    // it is restored or purged (see purge_deleted_teams)
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data, error } = await supabase.rpc('delete_team', { p_team_id: c.req.param('id') });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    })
+
+    .post('/:id/restore', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { data, error } = await supabase.rpc('restore_team', { p_team_id: c.req.param('id') });
+
+        if (error) {
+            if (error.message.includes('Access Denied')) {
+                return c.json({ error: error.message }, 403);
+            }
+            if (error.message.includes('Not Found')) {
+                return c.json({ error: error.message }, 404);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data as Record<string, unknown>);
+    })
+
+    .get('/:id/velocity', zValidator('query', VelocityQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { limit } = c.req.valid('query');
+
+        const { data: sprints, error: sprintsError } = await supabase
+            .from('sprints')
+            .select('id, name, start_date, end_date')
+            .eq('team_id', id)
+            .eq('status', 'completed')
+            .order('end_date', { ascending: false })
+            .limit(limit);
+
+        if (sprintsError) {
+            return c.json({ error: sprintsError.message }, 500);
+        }
+
+        const sprintIds = sprints.map((s) => s.id);
+
+        // Team-level commitment rows (user_id NULL) frozen at activation
+        const { data: commitments, error: commitmentsError } = await supabase
+            .from('sprint_commitments')
+            .select('sprint_id, committed_points')
+            .in('sprint_id', sprintIds)
+            .is('user_id', null);
+
+        if (commitmentsError) {
+            return c.json({ error: commitmentsError.message }, 500);
+        }
+
+        const { data: completedItems, error: itemsError } = await supabase
+            .from('work_items')
+            .select('sprint_id, story_points, completed_at')
+            .in('sprint_id', sprintIds)
+            .not('completed_at', 'is', null);
+
+        if (itemsError) {
+            return c.json({ error: itemsError.message }, 500);
+        }
+
+        // Most recent imported team-level velocity (user_id NULL)
+        const { data: historical, error: historicalError } = await supabase
+            .from('historical_metrics')
+            .select('velocity_avg, metric_date, import_batch_id')
+            .eq('team_id', id)
+            .is('user_id', null)
+            .not('velocity_avg', 'is', null)
+            .order('metric_date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (historicalError) {
+            return c.json({ error: historicalError.message }, 500);
+        }
+
+        const velocities = buildSprintVelocities(sprints, commitments, completedItems);
+
+        return c.json(buildTeamVelocity(id, velocities, historical));
+    });
 
 export default app;
@@ -0,0 +1,283 @@
+import { Hono } from 'hono';
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@sprintpulse/shared/database.types.ts';
+import {
+    CreateWorkItemSchema,
+    MoveWorkItemSchema,
+    UpdateWorkItemSchema,
+    WorkItemListQuerySchema,
+    WorkItemStatusEnum,
+} from '@sprintpulse/shared/schemas/index.ts';
+import { applyList, ListOptions, planList, toPage } from '../lib/pagination.ts';
+import { zValidator } from '../lib/validator.ts';
+
+const LIST_OPTIONS: ListOptions = {
+    sortable: ['created_at', 'updated_at', 'title', 'story_points'],
+    defaultSort: 'created_at',
+    dateColumn: 'created_at',
+    status: { column: 'status', values: WorkItemStatusEnum.options },
+};
+
+const app = new Hono()
+    // -----------------------------------------------------------------------
+    // GET / — List work items by sprint, team or assignee
+    // -----------------------------------------------------------------------
+    .get('/', zValidator('query', WorkItemListQuerySchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const { sprintId, teamId, assigneeId } = c.req.valid('query');
+
+        if (!sprintId && !teamId && !assigneeId) {
+            return c.json({
+                error: 'Missing required query parameter: one of sprintId, teamId or assigneeId',
+            }, 400);
+        }
+
+        const plan = planList(c.req.valid('query'), LIST_OPTIONS);
+        if ('error' in plan) {
+            return c.json({ error: plan.error }, 400);
+        }
+
+        let query = supabase.from('work_items').select('*');
+
+        if (sprintId) query = query.eq('sprint_id', sprintId);
+        if (teamId) query = query.eq('team_id', teamId);
+        if (assigneeId) query = query.eq('assignee_user_id', assigneeId);
+
+        const { data, error } = await applyList(query, plan);
+
+        if (error) {
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(toPage(data, plan));
+    })
+
+    // -----------------------------------------------------------------------
+    // GET /:id — Get a single work item
+    // -----------------------------------------------------------------------
+    .get('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { data, error } = await supabase
+            .from('work_items')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error) {
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST / — Create a new work item
+    // -----------------------------------------------------------------------
+    .post('/', zValidator('json', CreateWorkItemSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const body = c.req.valid('json');
+
+        // Resolve team_id / account_id (required by DB but derivable from the
+        // sprint or team, so not required in the Zod schema)
+        let teamId: string;
+        let accountId: string;
+
+        if (body.sprint_id) {
+            const { data: sprint, error: sprintError } = await supabase
+                .from('sprints')
+                .select('team_id, account_id')
+                .eq('id', body.sprint_id)
+                .single();
+
+            if (sprintError || !sprint) {
+                return c.json({ error: 'Sprint not found' }, 404);
+            }
+
+            if (body.team_id && body.team_id !== sprint.team_id) {
+                return c.json({ error: 'Sprint does not belong to the given team' }, 400);
+            }
+
+            teamId = sprint.team_id;
+            accountId = sprint.account_id;
+        } else {
+            const { data: team, error: teamError } = await supabase
+                .from('teams')
+                .select('account_id')
+                .eq('id', body.team_id!)
+                .single();
+
+            if (teamError || !team) {
+                return c.json({ error: 'Team not found' }, 404);
+            }
+
+            teamId = body.team_id!;
+            accountId = team.account_id;
+        }
+
+        const { data, error } = await supabase
+            .from('work_items')
+            .insert({
+                ...body,
+                team_id: teamId,
+                account_id: accountId,
+                // The completion trigger only fires on UPDATE, so stamp items
+                // that are created as already done.
+                completed_at: body.status === 'done' ? new Date().toISOString() : null,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            // Composite FK: the project must belong to the item's team
+            if (error.message.includes('work_items_project_id_fkey')) {
+                return c.json({ error: 'Project does not belong to the work item\'s team' }, 400);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data, 201);
+    })
+
+    // -----------------------------------------------------------------------
+    // PATCH /:id — Update a work item
+    // -----------------------------------------------------------------------
+    .patch('/:id', zValidator('json', UpdateWorkItemSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const body = c.req.valid('json');
+
+        const { data, error } = await supabase
+            .from('work_items')
+            .update(body)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            if (error.message.includes('work_items_project_id_fkey')) {
+                return c.json({ error: 'Project does not belong to the work item\'s team' }, 400);
+            }
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json(
+                { error: error.message },
+                error.code === 'PGRST116' ? 404 : 500
+            );
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // POST /:id/move — Move a work item to another sprint (or the backlog)
+    // -----------------------------------------------------------------------
+    .post('/:id/move', zValidator('json', MoveWorkItemSchema), async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+        const { sprint_id } = c.req.valid('json');
+
+        const { data: item, error: itemError } = await supabase
+            .from('work_items')
+            .select('team_id')
+            .eq('id', id)
+            .single();
+
+        if (itemError || !item) {
+            return c.json({ error: 'Work item not found' }, 404);
+        }
+
+        if (sprint_id) {
+            const { data: sprint, error: sprintError } = await supabase
+                .from('sprints')
+                .select('team_id')
+                .eq('id', sprint_id)
+                .single();
+
+            if (sprintError || !sprint) {
+                return c.json({ error: 'Sprint not found' }, 404);
+            }
+
+            if (sprint.team_id !== item.team_id) {
+                return c.json({ error: 'Cannot move a work item to another team\'s sprint' }, 400);
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('work_items')
+            .update({ sprint_id })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json(data);
+    })
+
+    // -----------------------------------------------------------------------
+    // DELETE /:id — Delete a work item
+    // -----------------------------------------------------------------------
+    .delete('/:id', async (c) => {
+        const supabase = createClient<Database>(
+            Deno.env.get('SUPABASE_URL')!,
+            Deno.env.get('SUPABASE_ANON_KEY')!,
+            { global: { headers: { Authorization: c.req.header('Authorization')! } } }
+        );
+
+        const id = c.req.param('id');
+
+        const { error } = await supabase
+            .from('work_items')
+            .delete()
+            .eq('id', id);
+
+        if (error) {
+            if (error.message.includes('Conflict')) {
+                return c.json({ error: error.message }, 409);
+            }
+            return c.json({ error: error.message }, 500);
+        }
+
+        return c.json({ message: 'Work item deleted' }, 200);
+    });
+
+export default app;
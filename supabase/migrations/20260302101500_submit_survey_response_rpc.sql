@@ -0,0 +1,102 @@
+-- ----------------------------------------------------------------------------
+-- One response per user, survey and sprint
+-- Resubmitting edits the existing response instead of creating a duplicate.
+-- ----------------------------------------------------------------------------
+alter table public.survey_responses
+  add column updated_at timestamptz default now();
+
+alter table public.survey_responses
+  add constraint survey_responses_survey_sprint_user_key unique (survey_id, sprint_id, user_id);
+
+create trigger handle_updated_at before update on public.survey_responses
+  for each row execute procedure public.set_updated_at();
+
+-- ----------------------------------------------------------------------------
+-- RPC: Submit (or resubmit) a survey response with all of its answers
+-- Answers are validated against their question's response_type by the API
+-- and arrive here already mapped to value_number / value_text / value_json.
+-- ----------------------------------------------------------------------------
+create or replace function public.submit_survey_response(
+  p_survey_id       uuid,
+  p_sprint_id       uuid,
+  p_is_confidential boolean default false,
+  p_answers         jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id     uuid;
+  v_response_id uuid;
+  v_inserted    boolean;
+  v_result      jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  if not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  if not exists (
+    select 1 from public.surveys
+    where id = p_survey_id and team_id = v_team_id
+  ) then
+    raise exception 'Not Found: Survey does not belong to this team';
+  end if;
+
+  -- 2. Upsert the response (xmax = 0 only for freshly inserted rows)
+  insert into public.survey_responses (survey_id, sprint_id, user_id, is_confidential)
+  values (p_survey_id, p_sprint_id, auth.uid(), p_is_confidential)
+  on conflict (survey_id, sprint_id, user_id)
+  do update set is_confidential = excluded.is_confidential
+  returning id, (xmax = 0) into v_response_id, v_inserted;
+
+  -- 3. Replace the answers wholesale
+  delete from public.survey_answers where response_id = v_response_id;
+
+  insert into public.survey_answers (
+    response_id, question_id, value_number, value_text, value_json
+  )
+  select
+    v_response_id,
+    x.question_id,
+    x.value_number,
+    x.value_text,
+    x.value_json
+  from jsonb_to_recordset(p_answers) as x(
+    question_id  uuid,
+    value_number int,
+    value_text   text,
+    value_json   jsonb
+  );
+
+  -- 4. Return the result
+  select jsonb_build_object(
+    'id', r.id,
+    'survey_id', r.survey_id,
+    'sprint_id', r.sprint_id,
+    'is_confidential', r.is_confidential,
+    'is_resubmission', not v_inserted,
+    'created_at', r.created_at,
+    'updated_at', r.updated_at,
+    'answers', (
+       select coalesce(jsonb_agg(sa), '[]'::jsonb)
+       from public.survey_answers sa
+       where sa.response_id = r.id
+    )
+  ) into v_result
+  from public.survey_responses r
+  where r.id = v_response_id;
+
+  return v_result;
+end;
+$$;
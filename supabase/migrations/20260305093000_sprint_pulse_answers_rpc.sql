@@ -0,0 +1,58 @@
+-- ----------------------------------------------------------------------------
+-- RPC: Anonymized pulse answers for a sprint
+-- RLS only lets non-leads read their own responses, which would skew any
+-- aggregate. This returns every answer for the sprint to any team member,
+-- stripped of user_id, so results can be aggregated without being
+-- attributable. Thresholding happens in the API before anything is returned.
+-- ----------------------------------------------------------------------------
+create or replace function public.get_sprint_pulse_answers(
+  p_sprint_id uuid
+)
+returns table (
+  response_id     uuid,
+  survey_id       uuid,
+  question_id     uuid,
+  question_text   text,
+  response_type   text,
+  metric_category text,
+  options         jsonb,
+  order_index     int,
+  value_number    int,
+  value_text      text
+)
+language plpgsql
+stable
+security definer -- Bypasses response RLS, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id uuid;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null or not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  -- 2. Return answers without any reference to the respondent
+  return query
+  select
+    r.id,
+    r.survey_id,
+    q.id,
+    q.question_text,
+    q.response_type,
+    q.metric_category,
+    q.options,
+    q.order_index,
+    a.value_number,
+    a.value_text
+  from public.survey_responses r
+  join public.survey_answers a on a.response_id = r.id
+  join public.survey_questions q on q.id = a.question_id
+  where r.sprint_id = p_sprint_id;
+end;
+$$;
@@ -0,0 +1,89 @@
+-- ----------------------------------------------------------------------------
+-- Sprint Lifecycle: planned -> active -> completed
+-- ----------------------------------------------------------------------------
+
+-- A team can only ever have one active sprint
+create unique index sprints_one_active_per_team
+  on public.sprints (team_id)
+  where status = 'active';
+
+-- ----------------------------------------------------------------------------
+-- RPC: Activate a sprint and freeze its commitments
+-- Moves a planned sprint to active and snapshots the board into
+-- sprint_commitments in the same transaction: one team total row
+-- (user_id NULL) plus one row per assignee.
+-- ----------------------------------------------------------------------------
+create or replace function public.activate_sprint(
+  p_sprint_id uuid
+)
+returns jsonb
+language plpgsql
+security definer -- Commitments are read-only under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_sprint public.sprints%rowtype;
+begin
+  -- 1. Lock the sprint row so concurrent activations serialize
+  select * into v_sprint
+  from public.sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Ensure user belongs to the sprint's account
+  if not public.is_account_member(v_sprint.account_id) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 3. Lifecycle checks
+  if v_sprint.status <> 'planned' then
+    raise exception 'Invalid Transition: Sprint is % and cannot be activated', v_sprint.status;
+  end if;
+
+  if exists (
+    select 1 from public.sprints
+    where team_id = v_sprint.team_id and status = 'active'
+  ) then
+    raise exception 'Conflict: Team already has an active sprint';
+  end if;
+
+  -- 4. Activate
+  update public.sprints
+  set status = 'active'
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  -- 5. Freeze commitments: team total
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, null, coalesce(sum(wi.story_points), 0), count(*)
+  from public.work_items wi
+  where wi.sprint_id = p_sprint_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 6. Freeze commitments: per assignee (only users with a profile, per FK)
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, wi.assignee_user_id, sum(wi.story_points), count(*)
+  from public.work_items wi
+  join public.profiles p on p.user_id = wi.assignee_user_id
+  where wi.sprint_id = p_sprint_id
+  group by wi.assignee_user_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 7. Return the sprint with its frozen commitments
+  return to_jsonb(v_sprint) || jsonb_build_object(
+    'commitments', (
+      select coalesce(jsonb_agg(sc order by sc.user_id nulls first), '[]'::jsonb)
+      from public.sprint_commitments sc
+      where sc.sprint_id = p_sprint_id
+    )
+  );
+end;
+$$;
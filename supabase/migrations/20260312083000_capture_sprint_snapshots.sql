@@ -0,0 +1,73 @@
+-- ----------------------------------------------------------------------------
+-- RPC: Capture daily snapshots for every active sprint
+-- Called by the /jobs/snapshots cron endpoint with the service role.
+-- Idempotent per snapshot_date: re-running the same day overwrites that
+-- day's rows with the current board state.
+-- ----------------------------------------------------------------------------
+create or replace function public.capture_sprint_snapshots(
+  p_snapshot_date date default current_date
+)
+returns int
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_sprint_count int;
+begin
+  -- 1. Team totals (user_id NULL), including sprints with an empty board
+  insert into public.sprint_snapshots (
+    sprint_id, user_id, snapshot_date,
+    points_completed, points_remaining, items_completed, items_remaining
+  )
+  select
+    s.id,
+    null,
+    p_snapshot_date,
+    coalesce(sum(wi.story_points) filter (where wi.status = 'done'), 0),
+    coalesce(sum(wi.story_points) filter (where wi.status <> 'done'), 0),
+    count(wi.id) filter (where wi.status = 'done'),
+    count(wi.id) filter (where wi.status <> 'done')
+  from public.sprints s
+  left join public.work_items wi on wi.sprint_id = s.id
+  where s.status = 'active'
+  group by s.id
+  on conflict (sprint_id, user_id, snapshot_date) do update
+  set points_completed = excluded.points_completed,
+      points_remaining = excluded.points_remaining,
+      items_completed = excluded.items_completed,
+      items_remaining = excluded.items_remaining;
+
+  get diagnostics v_sprint_count = row_count;
+
+  -- 2. Per assignee (only users with a profile, per FK)
+  insert into public.sprint_snapshots (
+    sprint_id, user_id, snapshot_date,
+    points_completed, points_remaining, items_completed, items_remaining
+  )
+  select
+    s.id,
+    wi.assignee_user_id,
+    p_snapshot_date,
+    coalesce(sum(wi.story_points) filter (where wi.status = 'done'), 0),
+    coalesce(sum(wi.story_points) filter (where wi.status <> 'done'), 0),
+    count(*) filter (where wi.status = 'done'),
+    count(*) filter (where wi.status <> 'done')
+  from public.sprints s
+  join public.work_items wi on wi.sprint_id = s.id
+  join public.profiles p on p.user_id = wi.assignee_user_id
+  where s.status = 'active'
+  group by s.id, wi.assignee_user_id
+  on conflict (sprint_id, user_id, snapshot_date) do update
+  set points_completed = excluded.points_completed,
+      points_remaining = excluded.points_remaining,
+      items_completed = excluded.items_completed,
+      items_remaining = excluded.items_remaining;
+
+  return v_sprint_count;
+end;
+$$;
+
+-- Jobs only: never callable with a user JWT
+revoke execute on function public.capture_sprint_snapshots(date) from public, anon, authenticated;
+grant execute on function public.capture_sprint_snapshots(date) to service_role;
@@ -0,0 +1,64 @@
+-- ----------------------------------------------------------------------------
+-- Historical Metrics Import (Onboarding / Hydration)
+-- ----------------------------------------------------------------------------
+
+-- Helper for management RLS: team leads, plus owners/admins of the account
+create or replace function public.can_manage_team(p_team_id uuid)
+returns boolean language sql security definer stable set search_path = '' as $$
+  select exists (
+    select 1 from public.team_members tm
+    where tm.team_id = p_team_id and tm.user_id = auth.uid() and tm.role = 'lead'
+  )
+  or exists (
+    select 1 from public.teams t
+    join public.account_members am on am.account_id = t.account_id
+    where t.id = p_team_id and am.user_id = auth.uid() and am.role in ('owner', 'admin')
+  );
+$$;
+
+create policy "Import historical metrics" on public.historical_metrics
+for insert to authenticated
+with check ( public.can_manage_team(team_id) );
+
+-- Lets a bad import be rolled back by import_batch_id
+create policy "Delete historical metrics" on public.historical_metrics
+for delete to authenticated
+using ( public.can_manage_team(team_id) );
+
+create index historical_metrics_import_batch_idx
+  on public.historical_metrics (team_id, import_batch_id);
+
+-- ----------------------------------------------------------------------------
+-- RPC: Resolve account members by email
+-- auth.users is not readable through the API, so imports that identify
+-- people by email resolve them here. Only users with a profile are returned,
+-- since historical_metrics.user_id references profiles.
+-- ----------------------------------------------------------------------------
+create or replace function public.resolve_account_user_ids(
+  p_account_id uuid,
+  p_emails     text[]
+)
+returns table (
+  email   text,
+  user_id uuid
+)
+language plpgsql
+stable
+security definer -- Reads auth.users, but requires manual auth check
+set search_path = ''
+as $$
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the account
+  if not public.is_account_member(p_account_id) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 2. Match case-insensitively, only within the account
+  return query
+  select lower(u.email)::text, u.id
+  from auth.users u
+  join public.account_members am on am.user_id = u.id and am.account_id = p_account_id
+  join public.profiles p on p.user_id = u.id
+  where lower(u.email) = any (select lower(e) from unnest(p_emails) as e);
+end;
+$$;
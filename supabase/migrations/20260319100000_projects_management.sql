@@ -0,0 +1,15 @@
+-- ----------------------------------------------------------------------------
+-- Projects: management policies
+-- Projects are archived rather than deleted, so work items keep their link.
+-- ----------------------------------------------------------------------------
+create trigger handle_updated_at before update on public.projects
+  for each row execute procedure public.set_updated_at();
+
+create policy "Create projects" on public.projects for insert to authenticated
+with check ( public.is_team_member(team_id) );
+
+create policy "Update projects" on public.projects for update to authenticated
+using ( public.is_team_member(team_id) )
+with check ( public.is_team_member(team_id) );
+
+create index work_items_project_id_idx on public.work_items (project_id);
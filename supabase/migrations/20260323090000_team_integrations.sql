@@ -0,0 +1,88 @@
+-- ----------------------------------------------------------------------------
+-- Team Integrations (External Sync)
+-- Connects a team to an external tracker (GitHub repository, Jira project)
+-- whose issues are mirrored into work_items as "shadow records".
+-- ----------------------------------------------------------------------------
+create table public.team_integrations (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.teams(id) on delete cascade,
+  account_id uuid not null references public.accounts(id) on delete cascade,
+  provider text not null check (provider in ('github', 'jira')),
+  external_key text not null, -- e.g. "octo-org/octo-repo" or "PULSE" (stored lowercase)
+  settings jsonb not null default '{}'::jsonb, -- Provider-specific mapping config
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (provider, external_key) -- One team per repository / project
+);
+
+create trigger handle_updated_at before update on public.team_integrations
+  for each row execute procedure public.set_updated_at();
+
+alter table public.team_integrations enable row level security;
+
+create policy "View integrations" on public.team_integrations for select to authenticated
+using ( public.is_team_member(team_id) );
+
+create policy "Manage integrations" on public.team_integrations for all to authenticated
+using ( public.can_manage_team(team_id) )
+with check ( public.can_manage_team(team_id) );
+
+-- ----------------------------------------------------------------------------
+-- Integration Secrets
+-- Webhook signing secrets and API tokens. RLS is enabled with no policies,
+-- so only the service role (webhooks, backfills) can read them.
+-- ----------------------------------------------------------------------------
+create table public.team_integration_secrets (
+  integration_id uuid primary key references public.team_integrations(id) on delete cascade,
+  webhook_secret text not null,
+  access_token text,
+  created_at timestamptz default now()
+);
+
+alter table public.team_integration_secrets enable row level security;
+
+-- ----------------------------------------------------------------------------
+-- Shadow records are upserted by their external id
+-- ----------------------------------------------------------------------------
+alter table public.work_items
+  add constraint work_items_team_provider_external_id_key unique (team_id, provider, external_id);
+
+-- ----------------------------------------------------------------------------
+-- RPC: Create an integration together with its secrets
+-- ----------------------------------------------------------------------------
+create or replace function public.create_team_integration(
+  p_team_id        uuid,
+  p_provider       text,
+  p_external_key   text,
+  p_webhook_secret text,
+  p_access_token   text default null,
+  p_settings       jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Writes the secrets table, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_integration public.team_integrations%rowtype;
+begin
+  -- 1. SECURITY CHECK: Team leads and account owners/admins only
+  if not public.can_manage_team(p_team_id) then
+    raise exception 'Access Denied: Only team leads and account admins can manage integrations';
+  end if;
+
+  -- 2. Insert the integration (account resolved from the team)
+  insert into public.team_integrations (team_id, account_id, provider, external_key, settings, created_by)
+  select t.id, t.account_id, p_provider, lower(p_external_key), p_settings, auth.uid()
+  from public.teams t
+  where t.id = p_team_id
+  returning * into v_integration;
+
+  -- 3. Store its secrets
+  insert into public.team_integration_secrets (integration_id, webhook_secret, access_token)
+  values (v_integration.id, p_webhook_secret, p_access_token);
+
+  return to_jsonb(v_integration);
+end;
+$$;
@@ -0,0 +1,10 @@
+-- ----------------------------------------------------------------------------
+-- Jira Sync: sprints as shadow records
+-- Jira issues carry the Jira sprint they belong to. Mirrored sprints keep the
+-- Jira sprint id so moving an issue between Jira sprints re-points sprint_id.
+-- ----------------------------------------------------------------------------
+alter table public.sprints
+  add column external_id text; -- e.g. Jira sprint id "37"
+
+alter table public.sprints
+  add constraint sprints_team_external_id_key unique (team_id, external_id);
@@ -0,0 +1,81 @@
+-- ----------------------------------------------------------------------------
+-- RPC: Account Onboarding
+-- Creates the account, the caller's owner membership and (optionally) a first
+-- team led by the caller in one transaction, so a failure part-way through
+-- cannot leave an orphaned account behind.
+-- ----------------------------------------------------------------------------
+create or replace function public.create_account(
+  p_name             text,
+  p_slug             text default null, -- derived from the name when omitted
+  p_team_name        text default null,
+  p_team_description text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Writes memberships for a brand new account, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_base    text;
+  v_slug    text;
+  v_suffix  int := 1;
+  v_account public.accounts%rowtype;
+  v_team    public.teams%rowtype;
+begin
+  -- 1. SECURITY CHECK: Any signed-in user may create an account
+  if v_user_id is null then
+    raise exception 'Access Denied: Not authenticated';
+  end if;
+
+  -- 2. Resolve the slug. An explicit slug must be free; a derived one gets
+  --    a numeric suffix until it is ("acme", "acme-2", ...).
+  if p_slug is not null then
+    v_slug := p_slug;
+    if exists (select 1 from public.accounts a where a.slug = v_slug) then
+      raise exception 'Conflict: Slug "%" is already taken', v_slug;
+    end if;
+  else
+    v_base := trim(both '-' from regexp_replace(lower(p_name), '[^a-z0-9]+', '-', 'g'));
+    if v_base = '' then
+      v_base := 'account';
+    end if;
+
+    v_slug := v_base;
+    while exists (select 1 from public.accounts a where a.slug = v_slug) loop
+      v_suffix := v_suffix + 1;
+      v_slug := v_base || '-' || v_suffix;
+    end loop;
+  end if;
+
+  -- 3. Insert the account and the owner membership
+  begin
+    insert into public.accounts (name, slug, owner_user_id)
+    values (p_name, v_slug, v_user_id)
+    returning * into v_account;
+  exception when unique_violation then
+    -- Lost a race for the same slug
+    raise exception 'Conflict: Slug "%" is already taken', v_slug;
+  end;
+
+  insert into public.account_members (account_id, user_id, role)
+  values (v_account.id, v_user_id, 'owner');
+
+  -- 4. Seed the first team, led by the caller
+  if p_team_name is not null then
+    insert into public.teams (account_id, name, description)
+    values (v_account.id, p_team_name, p_team_description)
+    returning * into v_team;
+
+    insert into public.team_members (team_id, user_id, role)
+    values (v_team.id, v_user_id, 'lead');
+  end if;
+
+  -- 5. Return the result
+  return to_jsonb(v_account)
+    || jsonb_build_object(
+      'role', 'owner',
+      'team', case when v_team.id is null then null else to_jsonb(v_team) end
+    );
+end;
+$$;
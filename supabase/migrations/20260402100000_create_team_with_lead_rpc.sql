@@ -0,0 +1,41 @@
+-- ----------------------------------------------------------------------------
+-- RPC: Create a team and assign the caller as its lead
+-- Replaces the two-call insert in the API; both rows commit or neither does.
+-- ----------------------------------------------------------------------------
+create or replace function public.create_team_with_lead(
+  p_account_id  uuid,
+  p_name        text,
+  p_description text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team public.teams%rowtype;
+begin
+  -- 1. SECURITY CHECK: Mirrors the "Create teams (Admin/Owner)" policy
+  if not exists (
+    select 1
+    from public.account_members
+    where account_id = p_account_id
+    and user_id = auth.uid()
+    and role in ('owner', 'admin')
+  ) then
+    raise exception 'Access Denied: Only account owners and admins can create teams';
+  end if;
+
+  -- 2. Insert the team
+  insert into public.teams (account_id, name, description)
+  values (p_account_id, p_name, p_description)
+  returning * into v_team;
+
+  -- 3. Insert the caller as lead
+  insert into public.team_members (team_id, user_id, role)
+  values (v_team.id, auth.uid(), 'lead');
+
+  -- 4. Return the result
+  return to_jsonb(v_team);
+end;
+$$;
@@ -0,0 +1,64 @@
+-- ----------------------------------------------------------------------------
+-- Team Membership Management
+-- Team leads and account owners/admins manage who is on a team. People can
+-- only join teams of accounts they belong to, and members may leave.
+-- ----------------------------------------------------------------------------
+create policy "Add team members" on public.team_members
+for insert to authenticated
+with check (
+  public.can_manage_team(team_id)
+  and exists (
+    select 1 from public.teams t
+    join public.account_members am on am.account_id = t.account_id
+    where t.id = team_members.team_id and am.user_id = team_members.user_id
+  )
+);
+
+create policy "Update team members" on public.team_members
+for update to authenticated
+using ( public.can_manage_team(team_id) )
+with check ( public.can_manage_team(team_id) );
+
+create policy "Remove team members" on public.team_members
+for delete to authenticated
+using ( public.can_manage_team(team_id) or user_id = auth.uid() );
+
+-- ----------------------------------------------------------------------------
+-- Invariant: every team keeps at least one lead
+-- Demoting or removing the last lead is rejected. Cascades are let through:
+-- when the team or the user itself is being deleted there is nothing to keep.
+-- ----------------------------------------------------------------------------
+create or replace function public.ensure_team_keeps_lead()
+returns trigger
+language plpgsql
+security definer -- Reads auth.users to detect cascades
+set search_path = ''
+as $$
+begin
+  if old.role = 'lead' and not (tg_op = 'UPDATE' and new.role = 'lead')
+     -- Cascade from teams / auth.users: the parent row is already gone
+     and exists (select 1 from public.teams t where t.id = old.team_id)
+     and exists (select 1 from auth.users u where u.id = old.user_id) then
+    -- Serialize lead changes per team so two leads cannot demote each other
+    perform 1 from public.teams t where t.id = old.team_id for update;
+
+    if not exists (
+      select 1 from public.team_members tm
+      where tm.team_id = old.team_id
+      and tm.role = 'lead'
+      and tm.user_id <> old.user_id
+    ) then
+      raise exception 'Conflict: A team must keep at least one lead';
+    end if;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger ensure_team_keeps_lead
+  before update of role or delete on public.team_members
+  for each row execute procedure public.ensure_team_keeps_lead();
@@ -0,0 +1,129 @@
+-- ----------------------------------------------------------------------------
+-- Account Invitations
+-- Owners and admins invite colleagues by email. The invite token is only
+-- ever returned to the inviter; the table stores its SHA-256 hash, and an
+-- invitation can be accepted once.
+-- ----------------------------------------------------------------------------
+
+-- Helper for management RLS: owners/admins of the account
+create or replace function public.can_manage_account(p_account_id uuid)
+returns boolean language sql security definer stable set search_path = '' as $$
+  select exists (
+    select 1 from public.account_members am
+    where am.account_id = p_account_id and am.user_id = auth.uid() and am.role in ('owner', 'admin')
+  );
+$$;
+
+create table public.account_invitations (
+  id uuid primary key default gen_random_uuid(),
+  account_id uuid not null references public.accounts(id) on delete cascade,
+  email text not null check (email = lower(email)),
+  role text not null default 'member' check (role in ('admin', 'member')),
+  team_ids uuid[] not null default '{}', -- Teams to join (as contributor) on accept
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  invited_by uuid references auth.users(id) on delete set null,
+  accepted_by uuid references auth.users(id) on delete set null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index account_invitations_account_idx on public.account_invitations (account_id, created_at);
+
+alter table public.account_invitations enable row level security;
+
+create policy "View invitations" on public.account_invitations for select to authenticated
+using ( public.can_manage_account(account_id) );
+
+create policy "Create invitations" on public.account_invitations for insert to authenticated
+with check ( public.can_manage_account(account_id) and invited_by = auth.uid() );
+
+-- Revocation sets revoked_at; acceptance goes through the RPC below
+create policy "Revoke invitations" on public.account_invitations for update to authenticated
+using ( public.can_manage_account(account_id) )
+with check ( public.can_manage_account(account_id) );
+
+-- ----------------------------------------------------------------------------
+-- RPC: Accept an invitation
+-- The invitee is not an account member yet, so this runs as definer. It
+-- checks the token, expiry and the caller's email, then creates the account
+-- membership and any team memberships in one transaction.
+-- ----------------------------------------------------------------------------
+create or replace function public.accept_account_invitation(
+  p_token_hash text
+)
+returns jsonb
+language plpgsql
+security definer -- Invitee cannot see the invitation, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_invitation public.account_invitations%rowtype;
+  v_email      text;
+  v_role       text;
+  v_team_ids   uuid[];
+begin
+  -- 1. Look up (and lock) the invitation
+  select * into v_invitation
+  from public.account_invitations
+  where token_hash = p_token_hash
+  for update;
+
+  if v_invitation.id is null then
+    raise exception 'Not Found: Invitation not found';
+  end if;
+
+  if v_invitation.accepted_at is not null then
+    raise exception 'Conflict: Invitation has already been accepted';
+  end if;
+
+  if v_invitation.revoked_at is not null then
+    raise exception 'Conflict: Invitation has been revoked';
+  end if;
+
+  if v_invitation.expires_at <= now() then
+    raise exception 'Conflict: Invitation has expired';
+  end if;
+
+  -- 2. SECURITY CHECK: The token only works for the invited email
+  select lower(u.email) into v_email from auth.users u where u.id = auth.uid();
+
+  if v_email is null or v_email <> v_invitation.email then
+    raise exception 'Access Denied: This invitation was sent to a different email address';
+  end if;
+
+  -- 3. Join the account. Existing members keep their current role.
+  insert into public.account_members (account_id, user_id, role)
+  values (v_invitation.account_id, auth.uid(), v_invitation.role)
+  on conflict (account_id, user_id) do nothing;
+
+  select am.role into v_role
+  from public.account_members am
+  where am.account_id = v_invitation.account_id and am.user_id = auth.uid();
+
+  -- 4. Join the invited teams that still exist in this account
+  with joined as (
+    insert into public.team_members (team_id, user_id, role)
+    select t.id, auth.uid(), 'contributor'
+    from public.teams t
+    where t.id = any (v_invitation.team_ids)
+    and t.account_id = v_invitation.account_id
+    and t.deleted_at is null
+    on conflict (team_id, user_id) do nothing
+    returning team_id
+  )
+  select coalesce(array_agg(team_id), '{}') into v_team_ids from joined;
+
+  -- 5. Mark the invitation as used
+  update public.account_invitations
+  set accepted_at = now(), accepted_by = auth.uid()
+  where id = v_invitation.id;
+
+  return jsonb_build_object(
+    'account_id', v_invitation.account_id,
+    'role', v_role,
+    'team_ids', to_jsonb(v_team_ids)
+  );
+end;
+$$;
@@ -0,0 +1,92 @@
+-- ----------------------------------------------------------------------------
+-- Survey question types
+-- create_survey_with_questions inserted surveys.is_active, which never
+-- existed, and passed the API's question_type straight into response_type.
+-- The API now maps its question types to response_type values itself; this
+-- version of the RPC takes response_type, metric_category and options.
+-- ----------------------------------------------------------------------------
+alter table public.surveys
+  add column is_active boolean not null default true;
+
+-- Options belong to single_select questions only, which need at least two
+alter table public.survey_questions
+  add constraint survey_questions_options_check check (
+    case
+      when response_type = 'single_select'
+        then jsonb_typeof(options) = 'array' and jsonb_array_length(options) >= 2
+      else options is null
+    end
+  );
+
+create or replace function public.create_survey_with_questions(
+  p_account_id uuid,
+  p_team_id    uuid default null,
+  p_title      text default '',
+  p_is_active  boolean default true,
+  p_questions  jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey_id uuid;
+  v_result    jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the account
+  if not exists (
+    select 1
+    from public.account_members
+    where account_id = p_account_id
+    and user_id = auth.uid()
+  ) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 2. Insert the survey
+  insert into public.surveys (account_id, team_id, title, is_active)
+  values (p_account_id, p_team_id, p_title, p_is_active)
+  returning id into v_survey_id;
+
+  -- 3. Bulk insert the questions (already mapped to DB names by the API)
+  insert into public.survey_questions (
+    survey_id, question_text, response_type, metric_category, options, order_index, is_required
+  )
+  select
+    v_survey_id,
+    x.question_text,
+    x.response_type,
+    x.metric_category,
+    x.options,
+    x.order_index,
+    coalesce(x.is_required, true)
+  from jsonb_to_recordset(p_questions) as x(
+    question_text   text,
+    response_type   text,
+    metric_category text,
+    options         jsonb,
+    order_index     int,
+    is_required     boolean
+  );
+
+  -- 4. Return the result
+  select jsonb_build_object(
+    'id', s.id,
+    'account_id', s.account_id,
+    'team_id', s.team_id,
+    'title', s.title,
+    'is_active', s.is_active,
+    'created_at', s.created_at,
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = v_survey_id;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,268 @@
+-- ----------------------------------------------------------------------------
+-- Survey versioning
+-- Answered questions are never edited or deleted: changing one retires it and
+-- adds a replacement, so survey_answers keep pointing at the wording people
+-- actually saw. A survey's questions at version N are those with
+-- added_in_version <= N and (retired_in_version is null or > N).
+-- ----------------------------------------------------------------------------
+alter table public.surveys
+  add column version int not null default 1,
+  add column archived_at timestamptz;
+
+alter table public.survey_questions
+  add column added_in_version int not null default 1,
+  add column retired_in_version int,
+  add column replaces_question_id uuid references public.survey_questions(id) on delete set null;
+
+create index survey_questions_current_idx
+  on public.survey_questions (survey_id) where retired_in_version is null;
+
+-- ----------------------------------------------------------------------------
+-- Helper: Can the caller edit a survey? Team leads for team surveys, account
+-- owners/admins for every survey of their account.
+-- ----------------------------------------------------------------------------
+create or replace function public.can_manage_survey(p_survey public.surveys)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select public.can_manage_account(p_survey.account_id)
+    or (p_survey.team_id is not null and public.can_manage_team(p_survey.team_id));
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Update a survey's title, active flag and (optionally) questions
+-- p_questions is the complete new question list, already mapped to DB names:
+-- - items with an `id` keep an existing current question (reordered/edited),
+-- - items without one are added,
+-- - current questions left out are retired (deleted if never answered).
+-- Changing the wording, type, options or category of an answered question
+-- retires it and inserts a replacement. Whenever that happens, or a survey
+-- with responses gains questions, the survey moves to a new version.
+-- ----------------------------------------------------------------------------
+create or replace function public.update_survey(
+  p_survey_id uuid,
+  p_title     text default null,
+  p_is_active boolean default null,
+  p_questions jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey        public.surveys;
+  v_has_responses boolean;
+  v_version       int;
+  v_item          record;
+  v_old           public.survey_questions;
+  v_answered      boolean;
+  v_changed       boolean;
+  v_result        jsonb;
+begin
+  -- 1. SECURITY CHECK: Lock the survey and ensure the caller may edit it
+  select * into v_survey
+  from public.surveys
+  where id = p_survey_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Survey does not exist';
+  end if;
+
+  if not public.can_manage_survey(v_survey) then
+    raise exception 'Access Denied: Only team leads and account admins can edit this survey';
+  end if;
+
+  if v_survey.archived_at is not null then
+    raise exception 'Conflict: Archived surveys cannot be edited';
+  end if;
+
+  v_version := v_survey.version;
+
+  if p_questions is not null then
+    drop table if exists pg_temp._survey_items;
+    create temporary table _survey_items on commit drop as
+    select
+      x.id, x.question_text, x.response_type, x.metric_category, x.options,
+      x.order_index, coalesce(x.is_required, true) as is_required
+    from jsonb_to_recordset(p_questions) as x(
+      id              uuid,
+      question_text   text,
+      response_type   text,
+      metric_category text,
+      options         jsonb,
+      order_index     int,
+      is_required     boolean
+    );
+
+    if exists (
+      select 1 from pg_temp._survey_items i
+      where i.id is not null
+      and not exists (
+        select 1 from public.survey_questions q
+        where q.id = i.id and q.survey_id = p_survey_id and q.retired_in_version is null
+      )
+    ) then
+      raise exception 'Not Found: Question is not a current question of this survey';
+    end if;
+
+    if exists (
+      select 1 from pg_temp._survey_items where id is not null group by id having count(*) > 1
+    ) then
+      raise exception 'Conflict: A question appears more than once';
+    end if;
+
+    -- 2. Decide whether this edit makes a new version
+    v_has_responses := exists (
+      select 1 from public.survey_responses where survey_id = p_survey_id
+    );
+
+    if v_has_responses and (
+      -- questions added
+      exists (select 1 from pg_temp._survey_items where id is null)
+      -- answered questions retired or reworded
+      or exists (
+        select 1
+        from public.survey_questions q
+        left join pg_temp._survey_items i on i.id = q.id
+        where q.survey_id = p_survey_id
+        and q.retired_in_version is null
+        and exists (select 1 from public.survey_answers a where a.question_id = q.id)
+        and (
+          i.id is null
+          or (q.question_text, q.response_type, q.metric_category, q.options)
+             is distinct from (i.question_text, i.response_type, i.metric_category, i.options)
+        )
+      )
+    ) then
+      v_version := v_survey.version + 1;
+    end if;
+
+    -- 3. Retire (or delete, if never answered) the questions left out
+    for v_old in
+      select q.* from public.survey_questions q
+      where q.survey_id = p_survey_id
+      and q.retired_in_version is null
+      and not exists (select 1 from pg_temp._survey_items i where i.id = q.id)
+    loop
+      if exists (select 1 from public.survey_answers a where a.question_id = v_old.id) then
+        update public.survey_questions
+        set retired_in_version = v_version
+        where id = v_old.id;
+      else
+        delete from public.survey_questions where id = v_old.id;
+      end if;
+    end loop;
+
+    -- 4. Apply the list
+    for v_item in select * from pg_temp._survey_items loop
+      if v_item.id is null then
+        insert into public.survey_questions (
+          survey_id, question_text, response_type, metric_category, options,
+          order_index, is_required, added_in_version
+        ) values (
+          p_survey_id, v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options,
+          v_item.order_index, v_item.is_required, v_version
+        );
+        continue;
+      end if;
+
+      select * into v_old from public.survey_questions where id = v_item.id;
+
+      v_changed := (v_old.question_text, v_old.response_type, v_old.metric_category, v_old.options)
+        is distinct from (v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options);
+      v_answered := exists (select 1 from public.survey_answers a where a.question_id = v_old.id);
+
+      if v_changed and v_answered then
+        update public.survey_questions
+        set retired_in_version = v_version
+        where id = v_old.id;
+
+        insert into public.survey_questions (
+          survey_id, question_text, response_type, metric_category, options,
+          order_index, is_required, added_in_version, replaces_question_id
+        ) values (
+          p_survey_id, v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options,
+          v_item.order_index, v_item.is_required, v_version, v_old.id
+        );
+      else
+        -- Order and is_required never change what a question asked
+        update public.survey_questions
+        set question_text = v_item.question_text,
+            response_type = v_item.response_type,
+            metric_category = v_item.metric_category,
+            options = v_item.options,
+            order_index = v_item.order_index,
+            is_required = v_item.is_required
+        where id = v_old.id;
+      end if;
+    end loop;
+  end if;
+
+  -- 5. Update the survey itself
+  update public.surveys
+  set title = coalesce(p_title, title),
+      is_active = coalesce(p_is_active, is_active),
+      version = v_version
+  where id = p_survey_id;
+
+  -- 6. Return the survey with its current questions
+  select to_jsonb(s) || jsonb_build_object(
+    'new_version', v_version > v_survey.version,
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id and sq.retired_in_version is null
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = p_survey_id;
+
+  return v_result;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Delete a survey, or archive it once it has responses
+-- Responses are hidden from most callers by RLS, so the check runs here.
+-- ----------------------------------------------------------------------------
+create or replace function public.delete_survey(p_survey_id uuid)
+returns jsonb
+language plpgsql
+security definer -- Elevation required to see every response, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey public.surveys;
+begin
+  select * into v_survey
+  from public.surveys
+  where id = p_survey_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Survey does not exist';
+  end if;
+
+  if not public.can_manage_survey(v_survey) then
+    raise exception 'Access Denied: Only team leads and account admins can delete this survey';
+  end if;
+
+  if exists (select 1 from public.survey_responses where survey_id = p_survey_id) then
+    update public.surveys
+    set archived_at = coalesce(archived_at, now()),
+        is_active = false
+    where id = p_survey_id;
+
+    return jsonb_build_object('id', p_survey_id, 'archived', true);
+  end if;
+
+  delete from public.surveys where id = p_survey_id;
+
+  return jsonb_build_object('id', p_survey_id, 'archived', false);
+end;
+$$;
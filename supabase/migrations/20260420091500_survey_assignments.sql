@@ -0,0 +1,447 @@
+-- ----------------------------------------------------------------------------
+-- Survey scheduling
+-- A survey_assignment asks one team member to answer one survey for a sprint.
+-- Assignments are created from surveys.trigger_event:
+-- - sprint_start / sprint_end: when the sprint changes status (trigger below),
+--   plus a catch-up in the daily dispatcher;
+-- - daily: once per day for every active sprint, by the dispatcher.
+-- 'manual' surveys are never assigned. Submitting a response completes the
+-- member's pending assignments for that survey and sprint.
+-- ----------------------------------------------------------------------------
+create table public.survey_assignments (
+  id uuid primary key default gen_random_uuid(),
+  survey_id uuid not null references public.surveys(id) on delete cascade,
+  sprint_id uuid not null references public.sprints(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  trigger_event text not null check (trigger_event in ('daily', 'sprint_start', 'sprint_end')),
+  -- Sprint start/end date, or the day a daily survey is due
+  occurrence_date date not null,
+  completed_at timestamptz,
+  created_at timestamptz default now(),
+  -- Makes dispatching idempotent
+  constraint survey_assignments_occurrence_key
+    unique (survey_id, sprint_id, user_id, trigger_event, occurrence_date)
+);
+
+create index survey_assignments_pending_idx
+  on public.survey_assignments (user_id) where completed_at is null;
+
+alter table public.survey_assignments enable row level security;
+
+-- View: Your own assignments, or all of a team you manage.
+-- Rows are only written by the dispatcher and the completion trigger.
+create policy "View survey assignments" on public.survey_assignments for select to authenticated
+using (
+  user_id = auth.uid()
+  or exists (
+    select 1 from public.sprints s
+    where s.id = survey_assignments.sprint_id
+    and public.can_manage_team(s.team_id)
+  )
+);
+
+-- ----------------------------------------------------------------------------
+-- Internal: Assign a sprint's team surveys with the given trigger_event to
+-- every member of the team. Returns the number of new assignments.
+-- ----------------------------------------------------------------------------
+create or replace function public.assign_sprint_surveys(
+  p_sprint_id       uuid,
+  p_trigger_event   text,
+  p_occurrence_date date
+)
+returns int
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_count int;
+begin
+  insert into public.survey_assignments (survey_id, sprint_id, user_id, trigger_event, occurrence_date)
+  select sv.id, s.id, tm.user_id, p_trigger_event, p_occurrence_date
+  from public.sprints s
+  join public.surveys sv on sv.team_id = s.team_id
+  join public.team_members tm on tm.team_id = s.team_id
+  where s.id = p_sprint_id
+  and sv.trigger_event = p_trigger_event
+  and sv.is_active
+  and sv.archived_at is null
+  on conflict on constraint survey_assignments_occurrence_key do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.assign_sprint_surveys(uuid, text, date) from public, anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Assign sprint_start / sprint_end surveys on sprint transitions
+-- ----------------------------------------------------------------------------
+create or replace function public.assign_surveys_on_sprint_transition()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if new.status = 'active' then
+    perform public.assign_sprint_surveys(new.id, 'sprint_start', new.start_date);
+  elsif new.status = 'completed' then
+    perform public.assign_sprint_surveys(new.id, 'sprint_end', new.end_date);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger assign_surveys_on_sprint_transition
+  after update of status on public.sprints
+  for each row
+  when (old.status is distinct from new.status)
+  execute procedure public.assign_surveys_on_sprint_transition();
+
+-- ----------------------------------------------------------------------------
+-- Trigger: A submitted (or resubmitted) response completes the member's
+-- pending assignments for that survey and sprint
+-- ----------------------------------------------------------------------------
+create or replace function public.complete_survey_assignments()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.survey_assignments
+  set completed_at = now()
+  where survey_id = new.survey_id
+  and sprint_id = new.sprint_id
+  and user_id = new.user_id
+  and completed_at is null;
+
+  return new;
+end;
+$$;
+
+create trigger complete_survey_assignments
+  after insert or update on public.survey_responses
+  for each row execute procedure public.complete_survey_assignments();
+
+-- ----------------------------------------------------------------------------
+-- RPC: Dispatch survey assignments for a day
+-- Called by the /jobs/survey-assignments cron endpoint with the service role.
+-- Idempotent per date. For every active sprint of a live team:
+-- - daily surveys are assigned for p_date,
+-- - sprint_start surveys are (re)assigned, catching members who joined late,
+-- - sprint_end surveys are assigned once the sprint's end_date is reached,
+--   even if nobody has completed the sprint yet.
+-- ----------------------------------------------------------------------------
+create or replace function public.dispatch_survey_assignments(
+  p_date date default current_date
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_sprint  record;
+  v_daily   int := 0;
+  v_start   int := 0;
+  v_end     int := 0;
+begin
+  for v_sprint in
+    select s.id, s.start_date, s.end_date
+    from public.sprints s
+    join public.teams t on t.id = s.team_id
+    where s.status = 'active'
+    and t.deleted_at is null
+    and s.start_date <= p_date
+  loop
+    v_daily := v_daily + public.assign_sprint_surveys(v_sprint.id, 'daily', p_date);
+    v_start := v_start + public.assign_sprint_surveys(v_sprint.id, 'sprint_start', v_sprint.start_date);
+
+    if v_sprint.end_date <= p_date then
+      v_end := v_end + public.assign_sprint_surveys(v_sprint.id, 'sprint_end', v_sprint.end_date);
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'daily', v_daily,
+    'sprint_start', v_start,
+    'sprint_end', v_end
+  );
+end;
+$$;
+
+-- Jobs only: never callable with a user JWT
+revoke execute on function public.dispatch_survey_assignments(date) from public, anon, authenticated;
+grant execute on function public.dispatch_survey_assignments(date) to service_role;
+
+-- ----------------------------------------------------------------------------
+-- Let the survey RPCs set trigger_event. Adding a parameter changes the
+-- signature, so the old versions are dropped rather than overloaded.
+-- ----------------------------------------------------------------------------
+drop function public.create_survey_with_questions(uuid, uuid, text, boolean, jsonb);
+drop function public.update_survey(uuid, text, boolean, jsonb);
+
+create or replace function public.create_survey_with_questions(
+  p_account_id uuid,
+  p_team_id    uuid default null,
+  p_title      text default '',
+  p_is_active  boolean default true,
+  p_questions  jsonb default '[]'::jsonb,
+  p_trigger_event text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey_id uuid;
+  v_result    jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the account
+  if not exists (
+    select 1
+    from public.account_members
+    where account_id = p_account_id
+    and user_id = auth.uid()
+  ) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 2. Insert the survey
+  insert into public.surveys (account_id, team_id, title, is_active, trigger_event)
+  values (p_account_id, p_team_id, p_title, p_is_active, p_trigger_event)
+  returning id into v_survey_id;
+
+  -- 3. Bulk insert the questions (already mapped to DB names by the API)
+  insert into public.survey_questions (
+    survey_id, question_text, response_type, metric_category, options, order_index, is_required
+  )
+  select
+    v_survey_id,
+    x.question_text,
+    x.response_type,
+    x.metric_category,
+    x.options,
+    x.order_index,
+    coalesce(x.is_required, true)
+  from jsonb_to_recordset(p_questions) as x(
+    question_text   text,
+    response_type   text,
+    metric_category text,
+    options         jsonb,
+    order_index     int,
+    is_required     boolean
+  );
+
+  -- 4. Return the result
+  select jsonb_build_object(
+    'id', s.id,
+    'account_id', s.account_id,
+    'team_id', s.team_id,
+    'title', s.title,
+    'is_active', s.is_active,
+    'trigger_event', s.trigger_event,
+    'created_at', s.created_at,
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = v_survey_id;
+
+  return v_result;
+end;
+$$;
+
+create or replace function public.update_survey(
+  p_survey_id uuid,
+  p_title     text default null,
+  p_is_active boolean default null,
+  p_questions jsonb default null,
+  p_trigger_event text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey        public.surveys;
+  v_has_responses boolean;
+  v_version       int;
+  v_item          record;
+  v_old           public.survey_questions;
+  v_answered      boolean;
+  v_changed       boolean;
+  v_result        jsonb;
+begin
+  -- 1. SECURITY CHECK: Lock the survey and ensure the caller may edit it
+  select * into v_survey
+  from public.surveys
+  where id = p_survey_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Survey does not exist';
+  end if;
+
+  if not public.can_manage_survey(v_survey) then
+    raise exception 'Access Denied: Only team leads and account admins can edit this survey';
+  end if;
+
+  if v_survey.archived_at is not null then
+    raise exception 'Conflict: Archived surveys cannot be edited';
+  end if;
+
+  v_version := v_survey.version;
+
+  if p_questions is not null then
+    drop table if exists pg_temp._survey_items;
+    create temporary table _survey_items on commit drop as
+    select
+      x.id, x.question_text, x.response_type, x.metric_category, x.options,
+      x.order_index, coalesce(x.is_required, true) as is_required
+    from jsonb_to_recordset(p_questions) as x(
+      id              uuid,
+      question_text   text,
+      response_type   text,
+      metric_category text,
+      options         jsonb,
+      order_index     int,
+      is_required     boolean
+    );
+
+    if exists (
+      select 1 from pg_temp._survey_items i
+      where i.id is not null
+      and not exists (
+        select 1 from public.survey_questions q
+        where q.id = i.id and q.survey_id = p_survey_id and q.retired_in_version is null
+      )
+    ) then
+      raise exception 'Not Found: Question is not a current question of this survey';
+    end if;
+
+    if exists (
+      select 1 from pg_temp._survey_items where id is not null group by id having count(*) > 1
+    ) then
+      raise exception 'Conflict: A question appears more than once';
+    end if;
+
+    -- 2. Decide whether this edit makes a new version
+    v_has_responses := exists (
+      select 1 from public.survey_responses where survey_id = p_survey_id
+    );
+
+    if v_has_responses and (
+      -- questions added
+      exists (select 1 from pg_temp._survey_items where id is null)
+      -- answered questions retired or reworded
+      or exists (
+        select 1
+        from public.survey_questions q
+        left join pg_temp._survey_items i on i.id = q.id
+        where q.survey_id = p_survey_id
+        and q.retired_in_version is null
+        and exists (select 1 from public.survey_answers a where a.question_id = q.id)
+        and (
+          i.id is null
+          or (q.question_text, q.response_type, q.metric_category, q.options)
+             is distinct from (i.question_text, i.response_type, i.metric_category, i.options)
+        )
+      )
+    ) then
+      v_version := v_survey.version + 1;
+    end if;
+
+    -- 3. Retire (or delete, if never answered) the questions left out
+    for v_old in
+      select q.* from public.survey_questions q
+      where q.survey_id = p_survey_id
+      and q.retired_in_version is null
+      and not exists (select 1 from pg_temp._survey_items i where i.id = q.id)
+    loop
+      if exists (select 1 from public.survey_answers a where a.question_id = v_old.id) then
+        update public.survey_questions
+        set retired_in_version = v_version
+        where id = v_old.id;
+      else
+        delete from public.survey_questions where id = v_old.id;
+      end if;
+    end loop;
+
+    -- 4. Apply the list
+    for v_item in select * from pg_temp._survey_items loop
+      if v_item.id is null then
+        insert into public.survey_questions (
+          survey_id, question_text, response_type, metric_category, options,
+          order_index, is_required, added_in_version
+        ) values (
+          p_survey_id, v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options,
+          v_item.order_index, v_item.is_required, v_version
+        );
+        continue;
+      end if;
+
+      select * into v_old from public.survey_questions where id = v_item.id;
+
+      v_changed := (v_old.question_text, v_old.response_type, v_old.metric_category, v_old.options)
+        is distinct from (v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options);
+      v_answered := exists (select 1 from public.survey_answers a where a.question_id = v_old.id);
+
+      if v_changed and v_answered then
+        update public.survey_questions
+        set retired_in_version = v_version
+        where id = v_old.id;
+
+        insert into public.survey_questions (
+          survey_id, question_text, response_type, metric_category, options,
+          order_index, is_required, added_in_version, replaces_question_id
+        ) values (
+          p_survey_id, v_item.question_text, v_item.response_type, v_item.metric_category, v_item.options,
+          v_item.order_index, v_item.is_required, v_version, v_old.id
+        );
+      else
+        -- Order and is_required never change what a question asked
+        update public.survey_questions
+        set question_text = v_item.question_text,
+            response_type = v_item.response_type,
+            metric_category = v_item.metric_category,
+            options = v_item.options,
+            order_index = v_item.order_index,
+            is_required = v_item.is_required
+        where id = v_old.id;
+      end if;
+    end loop;
+  end if;
+
+  -- 5. Update the survey itself
+  update public.surveys
+  set title = coalesce(p_title, title),
+      is_active = coalesce(p_is_active, is_active),
+      trigger_event = coalesce(p_trigger_event, trigger_event),
+      version = v_version
+  where id = p_survey_id;
+
+  -- 6. Return the survey with its current questions
+  select to_jsonb(s) || jsonb_build_object(
+    'new_version', v_version > v_survey.version,
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id and sq.retired_in_version is null
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = p_survey_id;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- ----------------------------------------------------------------------------
+-- System survey templates
+-- Templates are surveys with is_system_template = true and no team or
+-- account; the "View surveys" policy already shows them to everyone. Teams
+-- use one by cloning it (clone_survey_template) into a survey of their own.
+-- ----------------------------------------------------------------------------
+alter table public.surveys
+  alter column account_id drop not null,
+  add column source_template_id uuid references public.surveys(id) on delete set null;
+
+-- Only system templates may live outside an account
+alter table public.surveys
+  add constraint surveys_account_check check (
+    account_id is not null
+    or (is_system_template is true and team_id is null)
+  );
+
+-- ----------------------------------------------------------------------------
+-- RPC: Clone a system template into a new team survey
+-- Copies the template's current questions with their metric_category tags
+-- and options, and its trigger_event, so the new survey is scheduled like
+-- the template.
+-- ----------------------------------------------------------------------------
+create or replace function public.clone_survey_template(
+  p_template_id uuid,
+  p_team_id     uuid,
+  p_title       text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_template   public.surveys;
+  v_account_id uuid;
+  v_survey_id  uuid;
+  v_result     jsonb;
+begin
+  -- 1. The source must be a system template
+  select * into v_template
+  from public.surveys
+  where id = p_template_id
+  and is_system_template is true
+  and team_id is null;
+
+  if not found then
+    raise exception 'Not Found: Survey template does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Ensure the caller manages the target team
+  select t.account_id into v_account_id
+  from public.teams t
+  where t.id = p_team_id
+  and t.deleted_at is null;
+
+  if v_account_id is null then
+    raise exception 'Not Found: Team does not exist';
+  end if;
+
+  if not public.can_manage_team(p_team_id) then
+    raise exception 'Access Denied: Only team leads and account admins can add team surveys';
+  end if;
+
+  -- 3. Insert the survey
+  insert into public.surveys (
+    account_id, team_id, title, description, trigger_event, source_template_id
+  ) values (
+    v_account_id, p_team_id, coalesce(p_title, v_template.title), v_template.description,
+    v_template.trigger_event, v_template.id
+  )
+  returning id into v_survey_id;
+
+  -- 4. Deep-copy the template's current questions
+  insert into public.survey_questions (
+    survey_id, question_text, response_type, metric_category, options, order_index, is_required
+  )
+  select
+    v_survey_id,
+    q.question_text,
+    q.response_type,
+    q.metric_category,
+    q.options,
+    q.order_index,
+    q.is_required
+  from public.survey_questions q
+  where q.survey_id = v_template.id
+  and q.retired_in_version is null;
+
+  -- 5. Return the result
+  select to_jsonb(s) || jsonb_build_object(
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = v_survey_id;
+
+  return v_result;
+end;
+$$;
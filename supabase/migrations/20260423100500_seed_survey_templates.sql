@@ -0,0 +1,74 @@
+-- ----------------------------------------------------------------------------
+-- Seed: Standard survey templates
+-- Fixed ids so clients and docs can refer to them. Teams clone these with
+-- POST /surveys/:id/clone; the templates themselves are never assigned.
+-- ----------------------------------------------------------------------------
+insert into public.surveys (id, title, description, is_system_template, trigger_event)
+values
+  (
+    '5e1f0000-0000-4000-8000-000000000001',
+    'Sprint Health',
+    'A short end-of-sprint check on satisfaction, clarity, workload and what got in the way.',
+    true,
+    'sprint_end'
+  ),
+  (
+    '5e1f0000-0000-4000-8000-000000000002',
+    'Psychological Safety',
+    'Asked at the start of each sprint: can people take risks, ask for help and make mistakes safely?',
+    true,
+    'sprint_start'
+  ),
+  (
+    '5e1f0000-0000-4000-8000-000000000003',
+    'Flow & Friction',
+    'A one-minute daily check-in on focus and what slowed people down.',
+    true,
+    'daily'
+  );
+
+insert into public.survey_questions (
+  survey_id, question_text, response_type, metric_category, options, order_index, is_required
+)
+values
+  -- Sprint Health
+  ('5e1f0000-0000-4000-8000-000000000001', 'How satisfied are you with how this sprint went?',
+    'scale_1_5', 'satisfaction', null, 0, true),
+  ('5e1f0000-0000-4000-8000-000000000001', 'How clear were the sprint goals and priorities?',
+    'scale_1_5', 'flow', null, 1, true),
+  ('5e1f0000-0000-4000-8000-000000000001', 'How sustainable was your workload this sprint?',
+    'scale_1_5', 'workload', null, 2, true),
+  ('5e1f0000-0000-4000-8000-000000000001', 'What got in your way the most?',
+    'single_select', 'friction',
+    '["Unclear requirements", "Waiting on others", "Meetings and interruptions", "Tooling or environment", "Nothing in particular"]'::jsonb,
+    3, true),
+  ('5e1f0000-0000-4000-8000-000000000001', 'What should we change next sprint?',
+    'text', 'other', null, 4, false),
+
+  -- Psychological Safety
+  ('5e1f0000-0000-4000-8000-000000000002', 'I feel safe to take a risk on this team.',
+    'scale_1_5', 'safety', null, 0, true),
+  ('5e1f0000-0000-4000-8000-000000000002', 'It is easy to ask other members of this team for help.',
+    'scale_1_5', 'safety', null, 1, true),
+  ('5e1f0000-0000-4000-8000-000000000002', 'If I make a mistake on this team, it is not held against me.',
+    'scale_1_5', 'safety', null, 2, true),
+  ('5e1f0000-0000-4000-8000-000000000002', 'My skills and ideas are valued on this team.',
+    'scale_1_5', 'satisfaction', null, 3, true),
+  ('5e1f0000-0000-4000-8000-000000000002', 'How do you feel about the team right now?',
+    'emoji_mood', 'safety', null, 4, true),
+  ('5e1f0000-0000-4000-8000-000000000002', 'Is there anything you would like to raise?',
+    'text', 'other', null, 5, false),
+
+  -- Flow & Friction
+  ('5e1f0000-0000-4000-8000-000000000003', 'How was your focus today?',
+    'emoji_mood', 'flow', null, 0, true),
+  ('5e1f0000-0000-4000-8000-000000000003', 'How much of today went to planned sprint work?',
+    'single_select', 'flow',
+    '["Almost all", "More than half", "About half", "Less than half", "Almost none"]'::jsonb,
+    1, true),
+  ('5e1f0000-0000-4000-8000-000000000003', 'What slowed you down today?',
+    'single_select', 'friction',
+    '["Nothing", "Waiting on reviews", "Waiting on other teams", "Unplanned work", "Meetings", "Tooling or builds"]'::jsonb,
+    2, true),
+  ('5e1f0000-0000-4000-8000-000000000003', 'Anything blocking you right now?',
+    'text', 'friction', null, 3, false);
@@ -0,0 +1,195 @@
+-- ----------------------------------------------------------------------------
+-- Team soft delete
+-- Deleting a team sets teams.deleted_at. Its sprints and surveys (with their
+-- questions and responses) become read-only until the team is restored, and
+-- purge_deleted_teams removes it for good after a retention window.
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Freeze rows that belong to a deleted team
+-- A trigger rather than RLS, so the security definer RPCs are covered too.
+-- TG_ARGV[0] names the column leading to the team: 'team_id', or
+-- 'survey_id' for rows that belong to a survey. Jobs (service role) are
+-- exempt, so the purge can remove frozen rows.
+-- ----------------------------------------------------------------------------
+create or replace function public.prevent_deleted_team_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_rows    jsonb[] := '{}';
+  v_row     jsonb;
+  v_team_id uuid;
+begin
+  if auth.role() is distinct from 'service_role' then
+    if tg_op <> 'DELETE' then
+      v_rows := v_rows || to_jsonb(new);
+    end if;
+    if tg_op <> 'INSERT' then
+      v_rows := v_rows || to_jsonb(old);
+    end if;
+
+    foreach v_row in array v_rows loop
+      if tg_argv[0] = 'survey_id' then
+        select s.team_id into v_team_id
+        from public.surveys s
+        where s.id = (v_row->>'survey_id')::uuid;
+      else
+        v_team_id := (v_row->>'team_id')::uuid;
+      end if;
+
+      if exists (
+        select 1 from public.teams t
+        where t.id = v_team_id and t.deleted_at is not null
+      ) then
+        raise exception 'Conflict: Team is deleted; its sprints and surveys are read-only';
+      end if;
+    end loop;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.sprints
+  for each row execute procedure public.prevent_deleted_team_changes('team_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.surveys
+  for each row execute procedure public.prevent_deleted_team_changes('team_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.survey_questions
+  for each row execute procedure public.prevent_deleted_team_changes('survey_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.survey_responses
+  for each row execute procedure public.prevent_deleted_team_changes('survey_id');
+
+-- ----------------------------------------------------------------------------
+-- RPC: Soft-delete a team (account owners/admins)
+-- Pending survey assignments are dropped, as they can no longer be answered;
+-- the dispatcher recreates current ones if the team is restored.
+-- ----------------------------------------------------------------------------
+create or replace function public.delete_team(p_team_id uuid)
+returns jsonb
+language plpgsql
+security definer -- Teams have no update policy, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team public.teams;
+begin
+  select * into v_team
+  from public.teams
+  where id = p_team_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Team does not exist';
+  end if;
+
+  if not public.can_manage_account(v_team.account_id) then
+    raise exception 'Access Denied: Only account owners and admins can delete teams';
+  end if;
+
+  if v_team.deleted_at is not null then
+    raise exception 'Conflict: Team is already deleted';
+  end if;
+
+  update public.teams
+  set deleted_at = now()
+  where id = p_team_id
+  returning * into v_team;
+
+  delete from public.survey_assignments sa
+  using public.sprints s
+  where s.id = sa.sprint_id
+  and s.team_id = p_team_id
+  and sa.completed_at is null;
+
+  return to_jsonb(v_team);
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Restore a soft-deleted team (account owners/admins)
+-- ----------------------------------------------------------------------------
+create or replace function public.restore_team(p_team_id uuid)
+returns jsonb
+language plpgsql
+security definer -- Teams have no update policy, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team public.teams;
+begin
+  select * into v_team
+  from public.teams
+  where id = p_team_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Team does not exist';
+  end if;
+
+  if not public.can_manage_account(v_team.account_id) then
+    raise exception 'Access Denied: Only account owners and admins can restore teams';
+  end if;
+
+  if v_team.deleted_at is null then
+    raise exception 'Conflict: Team is not deleted';
+  end if;
+
+  update public.teams
+  set deleted_at = null
+  where id = p_team_id
+  returning * into v_team;
+
+  return to_jsonb(v_team);
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Permanently delete teams soft-deleted more than p_retention_days ago
+-- Called by the /jobs/purge-teams cron endpoint with the service role.
+-- Sprints are ON DELETE RESTRICT from teams and kudos reference sprints
+-- without a delete action, so kudos go first, then sprints, then the teams
+-- (everything else cascades from the team).
+-- ----------------------------------------------------------------------------
+create or replace function public.purge_deleted_teams(
+  p_retention_days int default 30
+)
+returns int
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_team_ids uuid[];
+begin
+  select coalesce(array_agg(id), '{}') into v_team_ids
+  from public.teams
+  where deleted_at < now() - make_interval(days => p_retention_days);
+
+  delete from public.kudos k
+  where k.team_id = any(v_team_ids)
+  or k.sprint_id in (select s.id from public.sprints s where s.team_id = any(v_team_ids));
+
+  delete from public.sprints where team_id = any(v_team_ids);
+
+  delete from public.teams where id = any(v_team_ids);
+
+  return cardinality(v_team_ids);
+end;
+$$;
+
+-- Jobs only: never callable with a user JWT
+revoke execute on function public.purge_deleted_teams(int) from public, anon, authenticated;
+grant execute on function public.purge_deleted_teams(int) to service_role;
@@ -0,0 +1,185 @@
+-- ----------------------------------------------------------------------------
+-- Sprint close-out
+-- Completing a sprint through complete_sprint moves its unfinished work items
+-- to the next planned sprint, a chosen planned sprint or the backlog, and
+-- records each one in sprint_carry_overs. Items the lead drops stay attached
+-- to the completed sprint and are recorded as dropped.
+-- ----------------------------------------------------------------------------
+
+-- Kudos were the only rows blocking a sprint delete (no delete action);
+-- they now outlive the sprint like work items do.
+alter table public.kudos
+  drop constraint kudos_sprint_id_fkey,
+  add constraint kudos_sprint_id_fkey
+    foreign key (sprint_id) references public.sprints(id) on delete set null;
+
+create table public.sprint_carry_overs (
+  id uuid primary key default gen_random_uuid(),
+  sprint_id uuid not null references public.sprints(id) on delete cascade, -- The completed sprint
+  work_item_id uuid not null references public.work_items(id) on delete cascade,
+  to_sprint_id uuid references public.sprints(id) on delete set null, -- NULL = Backlog (or dropped)
+  outcome text not null check (outcome in ('carried', 'dropped')),
+  -- The item as it stood at close-out
+  story_points int not null default 0,
+  status text not null,
+  created_at timestamptz default now(),
+  unique (sprint_id, work_item_id)
+);
+
+create index sprint_carry_overs_to_sprint_idx on public.sprint_carry_overs (to_sprint_id);
+
+alter table public.sprint_carry_overs enable row level security;
+
+-- Read-only for the team; rows are only written by complete_sprint
+create policy "View carry overs" on public.sprint_carry_overs for select using (
+  exists (select 1 from public.sprints s join public.team_members tm on s.team_id = tm.team_id where s.id = sprint_carry_overs.sprint_id and tm.user_id = auth.uid())
+);
+
+-- ----------------------------------------------------------------------------
+-- RPC: Complete an active sprint and carry over its unfinished work
+-- p_carry_over is 'next_planned' (the earliest planned sprint of the team),
+-- 'sprint' (p_target_sprint_id, which must be a planned sprint of the same
+-- team) or 'backlog'. Unfinished items listed in p_drop_item_ids are not
+-- moved. Returns the sprint with a close-out summary.
+-- ----------------------------------------------------------------------------
+create or replace function public.complete_sprint(
+  p_sprint_id        uuid,
+  p_carry_over       text,
+  p_target_sprint_id uuid default null,
+  p_drop_item_ids    uuid[] default '{}'
+)
+returns jsonb
+language plpgsql
+security definer -- Carry overs are read-only under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_sprint    public.sprints%rowtype;
+  v_target    public.sprints%rowtype;
+  v_drop_ids  uuid[] := coalesce(p_drop_item_ids, '{}');
+  v_committed int;
+begin
+  -- 1. Lock the sprint row so concurrent close-outs serialize
+  select * into v_sprint
+  from public.sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Only the team's leads (or account admins) close sprints
+  if not public.can_manage_team(v_sprint.team_id) then
+    raise exception 'Access Denied: Only team leads and account admins can complete sprints';
+  end if;
+
+  -- 3. Lifecycle checks
+  if v_sprint.status <> 'active' then
+    raise exception 'Invalid Transition: Sprint is % and cannot be completed', v_sprint.status;
+  end if;
+
+  if exists (
+    select 1 from unnest(v_drop_ids) d(id)
+    where not exists (
+      select 1 from public.work_items wi
+      where wi.id = d.id and wi.sprint_id = p_sprint_id and wi.status <> 'done'
+    )
+  ) then
+    raise exception 'Conflict: Only unfinished work items of this sprint can be dropped';
+  end if;
+
+  -- 4. Resolve where unfinished work goes
+  if p_carry_over = 'next_planned' then
+    select * into v_target
+    from public.sprints
+    where team_id = v_sprint.team_id and status = 'planned'
+    order by start_date, created_at
+    limit 1;
+
+    if not found then
+      raise exception 'Conflict: Team has no planned sprint to carry work into';
+    end if;
+  elsif p_carry_over = 'sprint' then
+    select * into v_target
+    from public.sprints
+    where id = p_target_sprint_id;
+
+    if not found or v_target.team_id <> v_sprint.team_id then
+      raise exception 'Not Found: Target sprint does not exist in this team';
+    end if;
+
+    if v_target.status <> 'planned' then
+      raise exception 'Conflict: Work can only be carried into a planned sprint';
+    end if;
+  elsif p_carry_over is distinct from 'backlog' then
+    raise exception 'Invalid Carry Over: %', p_carry_over;
+  end if;
+
+  -- 5. Record, then move, the unfinished items
+  insert into public.sprint_carry_overs (sprint_id, work_item_id, to_sprint_id, outcome, story_points, status)
+  select
+    p_sprint_id,
+    wi.id,
+    case when wi.id = any(v_drop_ids) then null else v_target.id end,
+    case when wi.id = any(v_drop_ids) then 'dropped' else 'carried' end,
+    wi.story_points,
+    wi.status
+  from public.work_items wi
+  where wi.sprint_id = p_sprint_id
+  and wi.status <> 'done';
+
+  update public.work_items wi
+  set sprint_id = v_target.id
+  where wi.sprint_id = p_sprint_id
+  and wi.status <> 'done'
+  and not (wi.id = any(v_drop_ids));
+
+  -- 6. Complete (fires the sprint_end survey assignments)
+  update public.sprints
+  set status = 'completed'
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  select sc.committed_points into v_committed
+  from public.sprint_commitments sc
+  where sc.sprint_id = p_sprint_id and sc.user_id is null;
+
+  -- 7. Return the sprint with its close-out summary
+  return jsonb_build_object(
+    'sprint', to_jsonb(v_sprint),
+    'carry_over', p_carry_over,
+    'target_sprint_id', v_target.id,
+    'committed_points', v_committed,
+    'delivered_points', (
+      select coalesce(sum(wi.story_points), 0) from public.work_items wi
+      where wi.sprint_id = p_sprint_id and wi.status = 'done'
+    ),
+    'delivered_items', (
+      select count(*) from public.work_items wi
+      where wi.sprint_id = p_sprint_id and wi.status = 'done'
+    ),
+    'carried_points', (
+      select coalesce(sum(co.story_points), 0) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'carried'
+    ),
+    'carried_items', (
+      select count(*) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'carried'
+    ),
+    'dropped_points', (
+      select coalesce(sum(co.story_points), 0) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'dropped'
+    ),
+    'dropped_items', (
+      select count(*) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'dropped'
+    ),
+    'carry_overs', (
+      select coalesce(jsonb_agg(co order by co.outcome, co.story_points desc, co.work_item_id), '[]'::jsonb)
+      from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id
+    )
+  );
+end;
+$$;
@@ -0,0 +1,20 @@
+-- ----------------------------------------------------------------------------
+-- Work items may only link a project of their own team
+-- The project FK becomes composite on (project_id, team_id). Deleting a
+-- project still only clears project_id.
+-- ----------------------------------------------------------------------------
+alter table public.projects
+  add constraint projects_id_team_id_key unique (id, team_id);
+
+-- Existing cross-team links would fail the new constraint
+update public.work_items wi
+set project_id = null
+from public.projects p
+where p.id = wi.project_id
+and p.team_id <> wi.team_id;
+
+alter table public.work_items
+  drop constraint work_items_project_id_fkey,
+  add constraint work_items_project_id_fkey
+    foreign key (project_id, team_id) references public.projects (id, team_id)
+    on delete set null (project_id);
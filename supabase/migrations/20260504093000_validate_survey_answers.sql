@@ -0,0 +1,177 @@
+-- ----------------------------------------------------------------------------
+-- Survey answers are validated in the database
+-- The API validates answers before calling submit_survey_response, but the
+-- RPC and the "Manage answers" policy are both reachable through PostgREST.
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Every answer must match a current question of its response's
+-- survey, with a value of the question's response_type
+-- ----------------------------------------------------------------------------
+create or replace function public.validate_survey_answer()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_question public.survey_questions;
+begin
+  select q.* into v_question
+  from public.survey_questions q
+  join public.survey_responses r on r.survey_id = q.survey_id
+  where q.id = new.question_id
+  and r.id = new.response_id;
+
+  if not found then
+    raise exception 'Invalid Answer: Question does not belong to this survey';
+  end if;
+
+  if v_question.retired_in_version is not null then
+    raise exception 'Invalid Answer: Question has been retired';
+  end if;
+
+  if v_question.response_type in ('scale_1_5', 'emoji_mood') then
+    if new.value_number is null or new.value_number not between 1 and 5
+      or new.value_text is not null or new.value_json is not null then
+      raise exception 'Invalid Answer: Expected an integer between 1 and 5';
+    end if;
+  elsif v_question.response_type = 'text' then
+    if coalesce(btrim(new.value_text), '') = ''
+      or new.value_number is not null or new.value_json is not null then
+      raise exception 'Invalid Answer: Expected a non-empty string';
+    end if;
+  elsif v_question.response_type = 'single_select' then
+    if new.value_text is null or not (v_question.options ? new.value_text)
+      or new.value_number is not null or new.value_json is not null then
+      raise exception 'Invalid Answer: Expected one of the question''s options';
+    end if;
+  else
+    raise exception 'Invalid Answer: Unsupported question type %', v_question.response_type;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger validate_survey_answer
+  before insert or update on public.survey_answers
+  for each row execute procedure public.validate_survey_answer();
+
+-- ----------------------------------------------------------------------------
+-- RPC: Submit (or resubmit) a survey response with all of its answers
+-- Answers arrive mapped to value_number / value_text / value_json; each one
+-- is checked by validate_survey_answer. This also rejects archived surveys,
+-- repeated questions and unanswered required questions.
+-- ----------------------------------------------------------------------------
+create or replace function public.submit_survey_response(
+  p_survey_id       uuid,
+  p_sprint_id       uuid,
+  p_is_confidential boolean default false,
+  p_answers         jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id     uuid;
+  v_survey      public.surveys;
+  v_response_id uuid;
+  v_inserted    boolean;
+  v_result      jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  if not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  select * into v_survey
+  from public.surveys
+  where id = p_survey_id and team_id = v_team_id;
+
+  if not found then
+    raise exception 'Not Found: Survey does not belong to this team';
+  end if;
+
+  if v_survey.archived_at is not null then
+    raise exception 'Conflict: Survey is archived';
+  end if;
+
+  -- 2. Validate the answer set as a whole
+  if (
+    select count(*) <> count(distinct x.question_id)
+    from jsonb_to_recordset(p_answers) as x(question_id uuid)
+  ) then
+    raise exception 'Invalid Answer: Question answered more than once';
+  end if;
+
+  if exists (
+    select 1 from public.survey_questions q
+    where q.survey_id = p_survey_id
+    and q.retired_in_version is null
+    and q.is_required is true
+    and not exists (
+      select 1 from jsonb_to_recordset(p_answers) as x(question_id uuid)
+      where x.question_id = q.id
+    )
+  ) then
+    raise exception 'Invalid Answer: Answer is required for every required question';
+  end if;
+
+  -- 3. Upsert the response (xmax = 0 only for freshly inserted rows)
+  insert into public.survey_responses (survey_id, sprint_id, user_id, is_confidential)
+  values (p_survey_id, p_sprint_id, auth.uid(), p_is_confidential)
+  on conflict (survey_id, sprint_id, user_id)
+  do update set is_confidential = excluded.is_confidential
+  returning id, (xmax = 0) into v_response_id, v_inserted;
+
+  -- 4. Replace the answers wholesale
+  delete from public.survey_answers where response_id = v_response_id;
+
+  insert into public.survey_answers (
+    response_id, question_id, value_number, value_text, value_json
+  )
+  select
+    v_response_id,
+    x.question_id,
+    x.value_number,
+    x.value_text,
+    x.value_json
+  from jsonb_to_recordset(p_answers) as x(
+    question_id  uuid,
+    value_number int,
+    value_text   text,
+    value_json   jsonb
+  );
+
+  -- 5. Return the result
+  select jsonb_build_object(
+    'id', r.id,
+    'survey_id', r.survey_id,
+    'sprint_id', r.sprint_id,
+    'is_confidential', r.is_confidential,
+    'is_resubmission', not v_inserted,
+    'created_at', r.created_at,
+    'updated_at', r.updated_at,
+    'answers', (
+       select coalesce(jsonb_agg(sa), '[]'::jsonb)
+       from public.survey_answers sa
+       where sa.response_id = r.id
+    )
+  ) into v_result
+  from public.survey_responses r
+  where r.id = v_response_id;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,257 @@
+-- ----------------------------------------------------------------------------
+-- Pulse results are aggregated in the database
+-- get_sprint_pulse_answers returned raw answer rows (with response ids) to any
+-- team member and left the respondent threshold to the API, so it could be
+-- called through PostgREST to read or attribute individual answers. It is
+-- replaced by functions that only return thresholded aggregates.
+-- ----------------------------------------------------------------------------
+drop function public.get_sprint_pulse_answers(uuid);
+
+-- ----------------------------------------------------------------------------
+-- Internal: Number of team members a sprint's participation is measured
+-- against
+-- ----------------------------------------------------------------------------
+create or replace function public.sprint_team_member_count(p_sprint_id uuid)
+returns int
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select count(*)::int
+  from public.sprints s
+  join public.team_members tm on tm.team_id = s.team_id
+  where s.id = p_sprint_id;
+$$;
+
+revoke execute on function public.sprint_team_member_count(uuid) from public, anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Internal: Smallest respondent count at which a sprint's answers are shown,
+-- or NULL when the sprint as a whole has too few respondents to show anything
+-- ----------------------------------------------------------------------------
+create or replace function public.sprint_pulse_threshold(p_sprint_id uuid)
+returns int
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case when count(distinct r.id) < 3 then null else 3 end
+  from public.survey_responses r
+  join public.survey_answers a on a.response_id = r.id
+  where r.sprint_id = p_sprint_id;
+$$;
+
+revoke execute on function public.sprint_pulse_threshold(uuid) from public, anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Aggregated pulse results for a sprint (shape of SprintPulseSchema)
+-- Per-question and per-metric_category averages and distributions. Anything
+-- answered by fewer than min_respondents (3) people is suppressed, and below
+-- that many respondents sprint-wide nothing is shown at all. Questions are
+-- ordered by survey then order_index, categories by the enum order.
+-- ----------------------------------------------------------------------------
+create or replace function public.get_sprint_pulse(
+  p_sprint_id uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer -- Bypasses response RLS, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id     uuid;
+  v_threshold   int;
+  v_respondents int;
+  v_members     int;
+  v_result      jsonb;
+  v_categories  text[] := array['satisfaction', 'flow', 'friction', 'safety', 'workload', 'other'];
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null or not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  v_threshold := public.sprint_pulse_threshold(p_sprint_id);
+  v_members := public.sprint_team_member_count(p_sprint_id);
+
+  select count(distinct r.id) into v_respondents
+  from public.survey_responses r
+  join public.survey_answers a on a.response_id = r.id
+  where r.sprint_id = p_sprint_id;
+
+  -- 2. Aggregate; nothing below leaves the function per respondent
+  with answers as (
+    select
+      r.id as response_id,
+      q.id as question_id,
+      q.survey_id,
+      q.question_text,
+      q.response_type,
+      q.metric_category,
+      q.options,
+      q.order_index,
+      a.value_number,
+      a.value_text
+    from public.survey_responses r
+    join public.survey_answers a on a.response_id = r.id
+    join public.survey_questions q on q.id = a.question_id
+    where r.sprint_id = p_sprint_id
+  ),
+  questions as (
+    select
+      a.question_id,
+      a.survey_id,
+      a.question_text,
+      a.response_type,
+      a.metric_category,
+      a.options,
+      a.order_index,
+      count(distinct a.response_id)::int as respondent_count,
+      (v_threshold is null or count(distinct a.response_id) < v_threshold) as suppressed,
+      round(avg(a.value_number) filter (where a.response_type in ('scale_1_5', 'emoji_mood')), 2) as average
+    from answers a
+    group by
+      a.question_id, a.survey_id, a.question_text, a.response_type,
+      a.metric_category, a.options, a.order_index
+  ),
+  categories as (
+    select
+      a.metric_category,
+      count(distinct a.response_id)::int as respondent_count,
+      (v_threshold is null or count(distinct a.response_id) < v_threshold) as suppressed,
+      round(avg(a.value_number), 2) as average
+    from answers a
+    where a.response_type in ('scale_1_5', 'emoji_mood')
+    and a.value_number is not null
+    and a.metric_category = any(v_categories)
+    group by a.metric_category
+  )
+  select jsonb_build_object(
+    'sprint_id', p_sprint_id,
+    'min_respondents', 3,
+    'participation', jsonb_build_object(
+      'respondent_count', v_respondents,
+      'team_member_count', v_members,
+      'rate', case when v_members > 0 then least(1, round(v_respondents::numeric / v_members, 2)) end
+    ),
+    'categories', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'metric_category', c.metric_category,
+        'respondent_count', c.respondent_count,
+        'suppressed', c.suppressed,
+        'average', case when c.suppressed then null else c.average end,
+        'distribution', case when c.suppressed then null else (
+          select jsonb_object_agg(k.key, (
+            select count(*) from answers x
+            where x.metric_category = c.metric_category
+            and x.response_type in ('scale_1_5', 'emoji_mood')
+            and x.value_number::text = k.key
+          ))
+          from (select generate_series(1, 5)::text as key) k
+        ) end
+      ) order by array_position(v_categories, c.metric_category)), '[]'::jsonb)
+      from categories c
+    ),
+    'questions', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'question_id', q.question_id,
+        'survey_id', q.survey_id,
+        'question_text', q.question_text,
+        'response_type', q.response_type,
+        'metric_category', case when q.metric_category = any(v_categories) then q.metric_category end,
+        'respondent_count', q.respondent_count,
+        'suppressed', q.suppressed,
+        'average', case when q.suppressed then null else q.average end,
+        -- "1".."5" for scale / mood questions, the options for single_select
+        'distribution', case when q.suppressed then null else (
+          select jsonb_object_agg(k.key, (
+            select count(*) from answers x
+            where x.question_id = q.question_id
+            and coalesce(x.value_number::text, x.value_text) = k.key
+          ))
+          from (
+            select generate_series(1, 5)::text as key
+            where q.response_type in ('scale_1_5', 'emoji_mood')
+            union
+            select jsonb_array_elements_text(q.options)
+            where q.response_type = 'single_select' and jsonb_typeof(q.options) = 'array'
+            union
+            select x.value_text from answers x
+            where x.question_id = q.question_id
+            and q.response_type = 'single_select'
+            and x.value_text is not null
+          ) k
+        ) end
+      ) order by q.survey_id, q.order_index), '[]'::jsonb)
+      from questions q
+    )
+  ) into v_result;
+
+  return v_result;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Free-text answers for a sprint, grouped by question
+-- Answers carry no respondent and are sorted by their text, so their order
+-- says nothing about who wrote them. Questions below the pulse threshold are
+-- returned as suppressed with no answers.
+-- ----------------------------------------------------------------------------
+create or replace function public.get_sprint_text_answers(
+  p_sprint_id uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer -- Bypasses response RLS, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id   uuid;
+  v_threshold int;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null or not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  v_threshold := public.sprint_pulse_threshold(p_sprint_id);
+
+  -- 2. Group the answers per question
+  return (
+    select coalesce(jsonb_agg(jsonb_build_object(
+      'question_id', t.question_id,
+      'question_text', t.question_text,
+      'suppressed', t.suppressed,
+      'answers', case when t.suppressed then '[]'::jsonb else t.answers end
+    ) order by t.survey_id, t.order_index), '[]'::jsonb)
+    from (
+      select
+        q.id as question_id,
+        q.survey_id,
+        q.order_index,
+        q.question_text,
+        (v_threshold is null or count(distinct r.id) < v_threshold) as suppressed,
+        jsonb_agg(btrim(a.value_text) order by btrim(a.value_text) collate "C") as answers
+      from public.survey_responses r
+      join public.survey_answers a on a.response_id = r.id
+      join public.survey_questions q on q.id = a.question_id
+      where r.sprint_id = p_sprint_id
+      and q.response_type = 'text'
+      and coalesce(btrim(a.value_text), '') <> ''
+      group by q.id, q.survey_id, q.order_index, q.question_text
+    ) t
+  );
+end;
+$$;
@@ -0,0 +1,122 @@
+-- ----------------------------------------------------------------------------
+-- Sprint lifecycle enforced in the database
+-- Transitions were only checked by the API, so a direct PostgREST update
+-- could move a sprint backwards or skip activation (and its commitment
+-- freeze).
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Sprints are created planned and only move planned -> active ->
+-- completed (mirrors SprintStatusTransitions in the shared schemas)
+-- ----------------------------------------------------------------------------
+create or replace function public.enforce_sprint_status_transition()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status <> 'planned' then
+      raise exception 'Invalid Transition: New sprints must be created as planned';
+    end if;
+  elsif new.status is distinct from old.status
+    and not (old.status = 'planned' and new.status = 'active')
+    and not (old.status = 'active' and new.status = 'completed') then
+    raise exception 'Invalid Transition: Sprint is % and cannot move to %', old.status, new.status;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_sprint_status_transition
+  before insert or update of status on public.sprints
+  for each row execute procedure public.enforce_sprint_status_transition();
+
+-- ----------------------------------------------------------------------------
+-- RPC: Activate a sprint and freeze its commitments
+-- Now also applies the other fields of the PATCH (p_changes: name, goal,
+-- start_date, end_date) in the same update, so activation and edit succeed
+-- or fail together.
+-- ----------------------------------------------------------------------------
+drop function public.activate_sprint(uuid);
+
+create or replace function public.activate_sprint(
+  p_sprint_id uuid,
+  p_changes   jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Commitments are read-only under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_sprint public.sprints%rowtype;
+begin
+  -- 1. Lock the sprint row so concurrent activations serialize
+  select * into v_sprint
+  from public.sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Ensure user belongs to the sprint's account
+  if not public.is_account_member(v_sprint.account_id) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 3. Lifecycle checks
+  if v_sprint.status <> 'planned' then
+    raise exception 'Invalid Transition: Sprint is % and cannot be activated', v_sprint.status;
+  end if;
+
+  if exists (
+    select 1 from public.sprints
+    where team_id = v_sprint.team_id and status = 'active'
+  ) then
+    raise exception 'Conflict: Team already has an active sprint';
+  end if;
+
+  -- 4. Activate, applying any other changes
+  update public.sprints
+  set status = 'active',
+      name = case when p_changes ? 'name' then p_changes->>'name' else name end,
+      goal = case when p_changes ? 'goal' then p_changes->>'goal' else goal end,
+      start_date = case when p_changes ? 'start_date' then (p_changes->>'start_date')::date else start_date end,
+      end_date = case when p_changes ? 'end_date' then (p_changes->>'end_date')::date else end_date end
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  -- 5. Freeze commitments: team total
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, null, coalesce(sum(wi.story_points), 0), count(*)
+  from public.work_items wi
+  where wi.sprint_id = p_sprint_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 6. Freeze commitments: per assignee (only users with a profile, per FK)
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, wi.assignee_user_id, sum(wi.story_points), count(*)
+  from public.work_items wi
+  join public.profiles p on p.user_id = wi.assignee_user_id
+  where wi.sprint_id = p_sprint_id
+  group by wi.assignee_user_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 7. Return the sprint with its frozen commitments
+  return to_jsonb(v_sprint) || jsonb_build_object(
+    'commitments', (
+      select coalesce(jsonb_agg(sc order by sc.user_id nulls first), '[]'::jsonb)
+      from public.sprint_commitments sc
+      where sc.sprint_id = p_sprint_id
+    )
+  );
+end;
+$$;
@@ -0,0 +1,71 @@
+-- ----------------------------------------------------------------------------
+-- RPC: Capture daily snapshots for every active sprint
+-- Re-running for the same day replaces that day's rows, so per-assignee rows
+-- of users who no longer have items in the sprint are removed rather than
+-- left behind. Snapshots record the board as it is now, so past dates are
+-- rejected.
+-- ----------------------------------------------------------------------------
+create or replace function public.capture_sprint_snapshots(
+  p_snapshot_date date default current_date
+)
+returns int
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_sprint_count int;
+begin
+  if p_snapshot_date < current_date then
+    raise exception 'Invalid Date: Cannot capture snapshots for a past date (%)', p_snapshot_date;
+  end if;
+
+  -- 1. Drop the day's previous capture for the sprints being captured
+  delete from public.sprint_snapshots ss
+  using public.sprints s
+  where s.id = ss.sprint_id
+  and s.status = 'active'
+  and ss.snapshot_date = p_snapshot_date;
+
+  -- 2. Team totals (user_id NULL), including sprints with an empty board
+  insert into public.sprint_snapshots (
+    sprint_id, user_id, snapshot_date,
+    points_completed, points_remaining, items_completed, items_remaining
+  )
+  select
+    s.id,
+    null,
+    p_snapshot_date,
+    coalesce(sum(wi.story_points) filter (where wi.status = 'done'), 0),
+    coalesce(sum(wi.story_points) filter (where wi.status <> 'done'), 0),
+    count(wi.id) filter (where wi.status = 'done'),
+    count(wi.id) filter (where wi.status <> 'done')
+  from public.sprints s
+  left join public.work_items wi on wi.sprint_id = s.id
+  where s.status = 'active'
+  group by s.id;
+
+  get diagnostics v_sprint_count = row_count;
+
+  -- 3. Per assignee (only users with a profile, per FK)
+  insert into public.sprint_snapshots (
+    sprint_id, user_id, snapshot_date,
+    points_completed, points_remaining, items_completed, items_remaining
+  )
+  select
+    s.id,
+    wi.assignee_user_id,
+    p_snapshot_date,
+    coalesce(sum(wi.story_points) filter (where wi.status = 'done'), 0),
+    coalesce(sum(wi.story_points) filter (where wi.status <> 'done'), 0),
+    count(*) filter (where wi.status = 'done'),
+    count(*) filter (where wi.status <> 'done')
+  from public.sprints s
+  join public.work_items wi on wi.sprint_id = s.id
+  join public.profiles p on p.user_id = wi.assignee_user_id
+  where s.status = 'active'
+  group by s.id, wi.assignee_user_id;
+
+  return v_sprint_count;
+end;
+$$;
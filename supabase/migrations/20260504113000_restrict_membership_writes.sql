@@ -0,0 +1,52 @@
+-- ----------------------------------------------------------------------------
+-- Membership writes go through RPCs only
+-- "Join accounts" let any user insert themselves into any account (with any
+-- role), and "Revoke invitations" let managers rewrite every column of an
+-- invitation, including its role, email, token_hash and accepted_at.
+-- create_account and accept_account_invitation already write memberships as
+-- definer, so neither policy is needed.
+-- ----------------------------------------------------------------------------
+drop policy "Join accounts" on public.account_members;
+
+drop policy "Revoke invitations" on public.account_invitations;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Revoke a pending invitation
+-- Only sets revoked_at. Invitations of other accounts, and ones that were
+-- already accepted or revoked, are reported as not found.
+-- ----------------------------------------------------------------------------
+create or replace function public.revoke_account_invitation(
+  p_invitation_id uuid
+)
+returns jsonb
+language plpgsql
+security definer -- Invitations are not updatable under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_invitation public.account_invitations%rowtype;
+begin
+  -- 1. Look up (and lock) the invitation
+  select * into v_invitation
+  from public.account_invitations
+  where id = p_invitation_id
+  for update;
+
+  -- 2. SECURITY CHECK: Only the account's owners and admins revoke
+  if v_invitation.id is null
+    or not public.can_manage_account(v_invitation.account_id)
+    or v_invitation.accepted_at is not null
+    or v_invitation.revoked_at is not null then
+    raise exception 'Not Found: Pending invitation not found';
+  end if;
+
+  -- 3. Revoke
+  update public.account_invitations
+  set revoked_at = now()
+  where id = p_invitation_id
+  returning * into v_invitation;
+
+  -- 4. Return the invitation (everything but token_hash)
+  return to_jsonb(v_invitation) - 'token_hash';
+end;
+$$;
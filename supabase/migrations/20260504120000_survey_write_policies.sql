@@ -0,0 +1,33 @@
+-- ----------------------------------------------------------------------------
+-- Survey edits go through the versioning RPCs
+-- "Manage surveys" and "Manage questions" were `for all`, so a lead could
+-- update or delete questions that already have answers directly through
+-- PostgREST, bypassing update_survey (which retires and versions them) and
+-- delete_survey (which archives answered surveys). Leads keep direct insert;
+-- updates and deletes are left to those security definer RPCs.
+-- ----------------------------------------------------------------------------
+drop policy "Manage surveys" on public.surveys;
+drop policy "Manage questions" on public.survey_questions;
+
+-- Create: Team Leads can create surveys for their team
+create policy "Create surveys" on public.surveys for insert to authenticated
+with check (
+  exists (
+    select 1 from public.team_members tm
+    where tm.team_id = surveys.team_id
+    and tm.user_id = auth.uid()
+    and tm.role = 'lead'
+  )
+);
+
+-- Create: Team Leads can add questions (via Survey ownership)
+create policy "Create questions" on public.survey_questions for insert to authenticated
+with check (
+  exists (
+    select 1 from public.surveys s
+    join public.team_members tm on tm.team_id = s.team_id
+    where s.id = survey_questions.survey_id
+    and tm.user_id = auth.uid()
+    and tm.role = 'lead'
+  )
+);
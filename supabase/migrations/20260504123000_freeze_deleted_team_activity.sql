@@ -0,0 +1,118 @@
+-- ----------------------------------------------------------------------------
+-- Deleted teams freeze all of their activity
+-- The freeze trigger only covered sprints and surveys, so work items, kudos,
+-- sprint commitments and survey answers of a deleted team could still change.
+-- It also exempted the whole service role, which let the GitHub and Jira
+-- webhooks keep syncing into a deleted team; only the purge is exempt now.
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Freeze rows that belong to a deleted team
+-- TG_ARGV[0] names the column leading to the team: 'team_id', 'survey_id'
+-- (questions, responses), 'sprint_id' (commitments) or 'response_id'
+-- (answers). purge_deleted_teams sets app.purging_deleted_teams so it can
+-- remove frozen rows.
+-- ----------------------------------------------------------------------------
+create or replace function public.prevent_deleted_team_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_rows    jsonb[] := '{}';
+  v_row     jsonb;
+  v_team_id uuid;
+begin
+  if current_setting('app.purging_deleted_teams', true) is distinct from 'on' then
+    if tg_op <> 'DELETE' then
+      v_rows := v_rows || to_jsonb(new);
+    end if;
+    if tg_op <> 'INSERT' then
+      v_rows := v_rows || to_jsonb(old);
+    end if;
+
+    foreach v_row in array v_rows loop
+      if tg_argv[0] = 'survey_id' then
+        select s.team_id into v_team_id
+        from public.surveys s
+        where s.id = (v_row->>'survey_id')::uuid;
+      elsif tg_argv[0] = 'sprint_id' then
+        select s.team_id into v_team_id
+        from public.sprints s
+        where s.id = (v_row->>'sprint_id')::uuid;
+      elsif tg_argv[0] = 'response_id' then
+        select s.team_id into v_team_id
+        from public.survey_responses r
+        join public.surveys s on s.id = r.survey_id
+        where r.id = (v_row->>'response_id')::uuid;
+      else
+        v_team_id := (v_row->>'team_id')::uuid;
+      end if;
+
+      if exists (
+        select 1 from public.teams t
+        where t.id = v_team_id and t.deleted_at is not null
+      ) then
+        raise exception 'Conflict: Team is deleted; its data is read-only';
+      end if;
+    end loop;
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.work_items
+  for each row execute procedure public.prevent_deleted_team_changes('team_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.kudos
+  for each row execute procedure public.prevent_deleted_team_changes('team_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.sprint_commitments
+  for each row execute procedure public.prevent_deleted_team_changes('sprint_id');
+
+create trigger prevent_deleted_team_changes
+  before insert or update or delete on public.survey_answers
+  for each row execute procedure public.prevent_deleted_team_changes('response_id');
+
+-- ----------------------------------------------------------------------------
+-- RPC: Permanently delete teams soft-deleted more than p_retention_days ago
+-- Unchanged, except that it now marks the transaction as a purge for
+-- prevent_deleted_team_changes (deleting sprints also clears sprint_id on
+-- the team's work items).
+-- ----------------------------------------------------------------------------
+create or replace function public.purge_deleted_teams(
+  p_retention_days int default 30
+)
+returns int
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_team_ids uuid[];
+begin
+  perform set_config('app.purging_deleted_teams', 'on', true);
+
+  select coalesce(array_agg(id), '{}') into v_team_ids
+  from public.teams
+  where deleted_at < now() - make_interval(days => p_retention_days);
+
+  delete from public.kudos k
+  where k.team_id = any(v_team_ids)
+  or k.sprint_id in (select s.id from public.sprints s where s.team_id = any(v_team_ids));
+
+  delete from public.sprints where team_id = any(v_team_ids);
+
+  delete from public.teams where id = any(v_team_ids);
+
+  return cardinality(v_team_ids);
+end;
+$$;
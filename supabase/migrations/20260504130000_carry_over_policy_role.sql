@@ -0,0 +1,9 @@
+-- ----------------------------------------------------------------------------
+-- "View carry overs" applied to every role; like the other read policies it
+-- is now limited to signed-in users.
+-- ----------------------------------------------------------------------------
+drop policy "View carry overs" on public.sprint_carry_overs;
+
+create policy "View carry overs" on public.sprint_carry_overs for select to authenticated using (
+  exists (select 1 from public.sprints s join public.team_members tm on s.team_id = tm.team_id where s.id = sprint_carry_overs.sprint_id and tm.user_id = auth.uid())
+);
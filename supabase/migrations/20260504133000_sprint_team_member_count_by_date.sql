@@ -0,0 +1,28 @@
+-- ----------------------------------------------------------------------------
+-- Participation is measured against the team as it was during the sprint
+-- sprint_team_member_count counted the team's current members, so the
+-- previous sprint in a report (and any older sprint's pulse) used today's
+-- team size. team_members has no history, so this counts members who had
+-- joined by the sprint's end date, plus respondents who have left since.
+-- ----------------------------------------------------------------------------
+create or replace function public.sprint_team_member_count(p_sprint_id uuid)
+returns int
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select count(*)::int
+  from (
+    select tm.user_id
+    from public.sprints s
+    join public.team_members tm on tm.team_id = s.team_id
+    where s.id = p_sprint_id
+    and (tm.joined_at is null or tm.joined_at::date <= s.end_date)
+    union
+    select r.user_id
+    from public.survey_responses r
+    where r.sprint_id = p_sprint_id
+    and r.user_id is not null
+  ) members;
+$$;
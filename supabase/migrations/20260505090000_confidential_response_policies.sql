@@ -0,0 +1,47 @@
+-- ----------------------------------------------------------------------------
+-- Confidential responses are only readable by their owner
+-- "View responses" let team leads select every response of their sprints,
+-- including the user_id and answers of confidential ones, straight through
+-- PostgREST. Leads now only see non-confidential responses directly; pulse
+-- results (which cover every response) come from the aggregate RPCs.
+-- ----------------------------------------------------------------------------
+drop policy "View responses" on public.survey_responses;
+drop policy "View answers" on public.survey_answers;
+
+-- View: Your own responses, or (for leads) the team's non-confidential ones
+create policy "View responses" on public.survey_responses for select to authenticated
+using (
+  user_id = auth.uid()
+  or (
+    is_confidential is not true
+    and exists (
+      select 1 from public.sprints s
+      join public.team_members tm on tm.team_id = s.team_id
+      where s.id = survey_responses.sprint_id
+      and tm.user_id = auth.uid()
+      and tm.role = 'lead'
+    )
+  )
+);
+
+-- View: Answers of responses you can see under the same rule
+create policy "View answers" on public.survey_answers for select to authenticated
+using (
+  exists (
+    select 1 from public.survey_responses r
+    where r.id = survey_answers.response_id
+    and (
+      r.user_id = auth.uid()
+      or (
+        r.is_confidential is not true
+        and exists (
+          select 1 from public.sprints s
+          join public.team_members tm on tm.team_id = s.team_id
+          where s.id = r.sprint_id
+          and tm.user_id = auth.uid()
+          and tm.role = 'lead'
+        )
+      )
+    )
+  )
+);
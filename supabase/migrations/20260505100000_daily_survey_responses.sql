@@ -0,0 +1,218 @@
+-- ----------------------------------------------------------------------------
+-- Daily surveys get one response per day
+-- Responses were unique per (survey, sprint, user), so each day's answers to
+-- a daily survey replaced the previous day's, and one submission completed
+-- every daily assignment of the sprint. Responses to daily surveys now carry
+-- the day they answer (occurrence_date, matching the assignment's); responses
+-- to other surveys leave it NULL and stay one per sprint.
+-- ----------------------------------------------------------------------------
+alter table public.survey_responses
+  add column occurrence_date date; -- The day a daily survey is answered for; NULL otherwise
+
+-- Existing daily responses hold the last day they were submitted for
+update public.survey_responses r
+set occurrence_date = coalesce(r.updated_at, r.created_at)::date
+from public.surveys sv
+where sv.id = r.survey_id
+and sv.trigger_event = 'daily';
+
+alter table public.survey_responses
+  drop constraint survey_responses_survey_sprint_user_key,
+  add constraint survey_responses_occurrence_key
+    unique nulls not distinct (survey_id, sprint_id, user_id, occurrence_date);
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Daily survey responses answer a day of their sprint that has
+-- already come; other responses have no occurrence_date
+-- ----------------------------------------------------------------------------
+create or replace function public.validate_survey_response_occurrence()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_trigger_event text;
+  v_sprint        public.sprints;
+begin
+  select sv.trigger_event into v_trigger_event
+  from public.surveys sv
+  where sv.id = new.survey_id;
+
+  if v_trigger_event is distinct from 'daily' then
+    if new.occurrence_date is not null then
+      raise exception 'Invalid Date: Only daily surveys are answered for a day';
+    end if;
+    return new;
+  end if;
+
+  select * into v_sprint
+  from public.sprints
+  where id = new.sprint_id;
+
+  if new.occurrence_date is null
+    or new.occurrence_date > current_date
+    or new.occurrence_date not between v_sprint.start_date and v_sprint.end_date then
+    raise exception 'Invalid Date: Daily survey responses must be for a past or current day of the sprint';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger validate_survey_response_occurrence
+  before insert or update of survey_id, sprint_id, occurrence_date on public.survey_responses
+  for each row execute procedure public.validate_survey_response_occurrence();
+
+-- ----------------------------------------------------------------------------
+-- Trigger: A submitted (or resubmitted) response completes the member's
+-- pending assignments for that survey and sprint; a daily response only
+-- completes the assignment for its day
+-- ----------------------------------------------------------------------------
+create or replace function public.complete_survey_assignments()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.survey_assignments
+  set completed_at = now()
+  where survey_id = new.survey_id
+  and sprint_id = new.sprint_id
+  and user_id = new.user_id
+  and (new.occurrence_date is null or occurrence_date = new.occurrence_date)
+  and completed_at is null;
+
+  return new;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Submit (or resubmit) a survey response with all of its answers
+-- Now takes p_occurrence_date: the day a daily survey is answered for
+-- (today by default). Adding a parameter changes the signature, so the old
+-- version is dropped rather than overloaded.
+-- ----------------------------------------------------------------------------
+drop function public.submit_survey_response(uuid, uuid, boolean, jsonb);
+
+create or replace function public.submit_survey_response(
+  p_survey_id       uuid,
+  p_sprint_id       uuid,
+  p_is_confidential boolean default false,
+  p_answers         jsonb default '[]'::jsonb,
+  p_occurrence_date date default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_team_id     uuid;
+  v_survey      public.surveys;
+  v_occurrence  date;
+  v_response_id uuid;
+  v_inserted    boolean;
+  v_result      jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure user belongs to the sprint's team
+  select s.team_id into v_team_id
+  from public.sprints s
+  where s.id = p_sprint_id;
+
+  if v_team_id is null then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  if not public.is_team_member(v_team_id) then
+    raise exception 'Access Denied: User is not a member of this team';
+  end if;
+
+  select * into v_survey
+  from public.surveys
+  where id = p_survey_id and team_id = v_team_id;
+
+  if not found then
+    raise exception 'Not Found: Survey does not belong to this team';
+  end if;
+
+  if v_survey.archived_at is not null then
+    raise exception 'Conflict: Survey is archived';
+  end if;
+
+  -- Checked by validate_survey_response_occurrence
+  v_occurrence := case
+    when v_survey.trigger_event = 'daily' then coalesce(p_occurrence_date, current_date)
+    else p_occurrence_date
+  end;
+
+  -- 2. Validate the answer set as a whole
+  if (
+    select count(*) <> count(distinct x.question_id)
+    from jsonb_to_recordset(p_answers) as x(question_id uuid)
+  ) then
+    raise exception 'Invalid Answer: Question answered more than once';
+  end if;
+
+  if exists (
+    select 1 from public.survey_questions q
+    where q.survey_id = p_survey_id
+    and q.retired_in_version is null
+    and q.is_required is true
+    and not exists (
+      select 1 from jsonb_to_recordset(p_answers) as x(question_id uuid)
+      where x.question_id = q.id
+    )
+  ) then
+    raise exception 'Invalid Answer: Answer is required for every required question';
+  end if;
+
+  -- 3. Upsert the response (xmax = 0 only for freshly inserted rows)
+  insert into public.survey_responses (survey_id, sprint_id, user_id, is_confidential, occurrence_date)
+  values (p_survey_id, p_sprint_id, auth.uid(), p_is_confidential, v_occurrence)
+  on conflict on constraint survey_responses_occurrence_key
+  do update set is_confidential = excluded.is_confidential
+  returning id, (xmax = 0) into v_response_id, v_inserted;
+
+  -- 4. Replace the answers wholesale
+  delete from public.survey_answers where response_id = v_response_id;
+
+  insert into public.survey_answers (
+    response_id, question_id, value_number, value_text, value_json
+  )
+  select
+    v_response_id,
+    x.question_id,
+    x.value_number,
+    x.value_text,
+    x.value_json
+  from jsonb_to_recordset(p_answers) as x(
+    question_id  uuid,
+    value_number int,
+    value_text   text,
+    value_json   jsonb
+  );
+
+  -- 5. Return the result
+  select jsonb_build_object(
+    'id', r.id,
+    'survey_id', r.survey_id,
+    'sprint_id', r.sprint_id,
+    'occurrence_date', r.occurrence_date,
+    'is_confidential', r.is_confidential,
+    'is_resubmission', not v_inserted,
+    'created_at', r.created_at,
+    'updated_at', r.updated_at,
+    'answers', (
+       select coalesce(jsonb_agg(sa), '[]'::jsonb)
+       from public.survey_answers sa
+       where sa.response_id = r.id
+    )
+  ) into v_result
+  from public.survey_responses r
+  where r.id = v_response_id;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,86 @@
+-- ----------------------------------------------------------------------------
+-- create_survey_with_questions checks the team it creates the survey for
+-- It only checked account membership, so any member of an account could
+-- create (and schedule) surveys for any team, including teams of other
+-- accounts, by passing their id. The team must now belong to p_account_id
+-- and be managed by the caller, as in clone_survey_template.
+-- ----------------------------------------------------------------------------
+create or replace function public.create_survey_with_questions(
+  p_account_id uuid,
+  p_team_id    uuid default null,
+  p_title      text default '',
+  p_is_active  boolean default true,
+  p_questions  jsonb default '[]'::jsonb,
+  p_trigger_event text default null
+)
+returns jsonb
+language plpgsql
+security definer -- Elevation required for transaction, but requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_survey_id uuid;
+  v_result    jsonb;
+begin
+  -- 1. SECURITY CHECK: Ensure the caller manages the team, within the account
+  if not exists (
+    select 1
+    from public.teams t
+    where t.id = p_team_id
+    and t.account_id = p_account_id
+    and t.deleted_at is null
+  ) then
+    raise exception 'Not Found: Team does not exist';
+  end if;
+
+  if not public.can_manage_team(p_team_id) then
+    raise exception 'Access Denied: Only team leads and account admins can add team surveys';
+  end if;
+
+  -- 2. Insert the survey
+  insert into public.surveys (account_id, team_id, title, is_active, trigger_event)
+  values (p_account_id, p_team_id, p_title, p_is_active, p_trigger_event)
+  returning id into v_survey_id;
+
+  -- 3. Bulk insert the questions (already mapped to DB names by the API)
+  insert into public.survey_questions (
+    survey_id, question_text, response_type, metric_category, options, order_index, is_required
+  )
+  select
+    v_survey_id,
+    x.question_text,
+    x.response_type,
+    x.metric_category,
+    x.options,
+    x.order_index,
+    coalesce(x.is_required, true)
+  from jsonb_to_recordset(p_questions) as x(
+    question_text   text,
+    response_type   text,
+    metric_category text,
+    options         jsonb,
+    order_index     int,
+    is_required     boolean
+  );
+
+  -- 4. Return the result
+  select jsonb_build_object(
+    'id', s.id,
+    'account_id', s.account_id,
+    'team_id', s.team_id,
+    'title', s.title,
+    'is_active', s.is_active,
+    'trigger_event', s.trigger_event,
+    'created_at', s.created_at,
+    'questions', (
+       select coalesce(jsonb_agg(sq order by sq.order_index), '[]'::jsonb)
+       from public.survey_questions sq
+       where sq.survey_id = s.id
+    )
+  ) into v_result
+  from public.surveys s
+  where s.id = v_survey_id;
+
+  return v_result;
+end;
+$$;
@@ -0,0 +1,277 @@
+-- ----------------------------------------------------------------------------
+-- Sprint status only moves through activate_sprint and complete_sprint
+-- enforce_sprint_status_transition accepted planned -> active and active ->
+-- completed from any update, so a direct PostgREST update could activate a
+-- sprint without freezing its commitments, or complete it without carrying
+-- over its unfinished work. The RPCs now flag the transition they make
+-- (app.sprint_transition, local to the transaction) and the trigger rejects
+-- status changes that are not flagged.
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: Sprints are created planned and only move planned -> active ->
+-- completed, through the RPC that flagged that transition
+-- ----------------------------------------------------------------------------
+create or replace function public.enforce_sprint_status_transition()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status <> 'planned' then
+      raise exception 'Invalid Transition: New sprints must be created as planned';
+    end if;
+  elsif new.status is distinct from old.status then
+    if not (old.status = 'planned' and new.status = 'active')
+      and not (old.status = 'active' and new.status = 'completed') then
+      raise exception 'Invalid Transition: Sprint is % and cannot move to %', old.status, new.status;
+    end if;
+
+    if current_setting('app.sprint_transition', true) is distinct from new.status then
+      raise exception 'Invalid Transition: Sprints are activated and completed through activate_sprint and complete_sprint';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Activate a sprint and freeze its commitments
+-- Unchanged apart from flagging the transition.
+-- ----------------------------------------------------------------------------
+create or replace function public.activate_sprint(
+  p_sprint_id uuid,
+  p_changes   jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer -- Commitments are read-only under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_sprint public.sprints%rowtype;
+begin
+  -- 1. Lock the sprint row so concurrent activations serialize
+  select * into v_sprint
+  from public.sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Ensure user belongs to the sprint's account
+  if not public.is_account_member(v_sprint.account_id) then
+    raise exception 'Access Denied: User is not a member of this account';
+  end if;
+
+  -- 3. Lifecycle checks
+  if v_sprint.status <> 'planned' then
+    raise exception 'Invalid Transition: Sprint is % and cannot be activated', v_sprint.status;
+  end if;
+
+  if exists (
+    select 1 from public.sprints
+    where team_id = v_sprint.team_id and status = 'active'
+  ) then
+    raise exception 'Conflict: Team already has an active sprint';
+  end if;
+
+  -- 4. Activate, applying any other changes (the flag lets the status
+  -- trigger accept the transition for this update only)
+  perform set_config('app.sprint_transition', 'active', true);
+
+  update public.sprints
+  set status = 'active',
+      name = case when p_changes ? 'name' then p_changes->>'name' else name end,
+      goal = case when p_changes ? 'goal' then p_changes->>'goal' else goal end,
+      start_date = case when p_changes ? 'start_date' then (p_changes->>'start_date')::date else start_date end,
+      end_date = case when p_changes ? 'end_date' then (p_changes->>'end_date')::date else end_date end
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  perform set_config('app.sprint_transition', '', true);
+
+  -- 5. Freeze commitments: team total
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, null, coalesce(sum(wi.story_points), 0), count(*)
+  from public.work_items wi
+  where wi.sprint_id = p_sprint_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 6. Freeze commitments: per assignee (only users with a profile, per FK)
+  insert into public.sprint_commitments (sprint_id, user_id, committed_points, committed_items)
+  select p_sprint_id, wi.assignee_user_id, sum(wi.story_points), count(*)
+  from public.work_items wi
+  join public.profiles p on p.user_id = wi.assignee_user_id
+  where wi.sprint_id = p_sprint_id
+  group by wi.assignee_user_id
+  on conflict (sprint_id, user_id) do update
+  set committed_points = excluded.committed_points,
+      committed_items = excluded.committed_items;
+
+  -- 7. Return the sprint with its frozen commitments
+  return to_jsonb(v_sprint) || jsonb_build_object(
+    'commitments', (
+      select coalesce(jsonb_agg(sc order by sc.user_id nulls first), '[]'::jsonb)
+      from public.sprint_commitments sc
+      where sc.sprint_id = p_sprint_id
+    )
+  );
+end;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RPC: Complete an active sprint and carry over its unfinished work
+-- Unchanged apart from flagging the transition.
+-- ----------------------------------------------------------------------------
+create or replace function public.complete_sprint(
+  p_sprint_id        uuid,
+  p_carry_over       text,
+  p_target_sprint_id uuid default null,
+  p_drop_item_ids    uuid[] default '{}'
+)
+returns jsonb
+language plpgsql
+security definer -- Carry overs are read-only under RLS, so requires manual auth check
+set search_path = ''
+as $$
+declare
+  v_sprint    public.sprints%rowtype;
+  v_target    public.sprints%rowtype;
+  v_drop_ids  uuid[] := coalesce(p_drop_item_ids, '{}');
+  v_committed int;
+begin
+  -- 1. Lock the sprint row so concurrent close-outs serialize
+  select * into v_sprint
+  from public.sprints
+  where id = p_sprint_id
+  for update;
+
+  if not found then
+    raise exception 'Not Found: Sprint does not exist';
+  end if;
+
+  -- 2. SECURITY CHECK: Only the team's leads (or account admins) close sprints
+  if not public.can_manage_team(v_sprint.team_id) then
+    raise exception 'Access Denied: Only team leads and account admins can complete sprints';
+  end if;
+
+  -- 3. Lifecycle checks
+  if v_sprint.status <> 'active' then
+    raise exception 'Invalid Transition: Sprint is % and cannot be completed', v_sprint.status;
+  end if;
+
+  if exists (
+    select 1 from unnest(v_drop_ids) d(id)
+    where not exists (
+      select 1 from public.work_items wi
+      where wi.id = d.id and wi.sprint_id = p_sprint_id and wi.status <> 'done'
+    )
+  ) then
+    raise exception 'Conflict: Only unfinished work items of this sprint can be dropped';
+  end if;
+
+  -- 4. Resolve where unfinished work goes
+  if p_carry_over = 'next_planned' then
+    select * into v_target
+    from public.sprints
+    where team_id = v_sprint.team_id and status = 'planned'
+    order by start_date, created_at
+    limit 1;
+
+    if not found then
+      raise exception 'Conflict: Team has no planned sprint to carry work into';
+    end if;
+  elsif p_carry_over = 'sprint' then
+    select * into v_target
+    from public.sprints
+    where id = p_target_sprint_id;
+
+    if not found or v_target.team_id <> v_sprint.team_id then
+      raise exception 'Not Found: Target sprint does not exist in this team';
+    end if;
+
+    if v_target.status <> 'planned' then
+      raise exception 'Conflict: Work can only be carried into a planned sprint';
+    end if;
+  elsif p_carry_over is distinct from 'backlog' then
+    raise exception 'Invalid Carry Over: %', p_carry_over;
+  end if;
+
+  -- 5. Record, then move, the unfinished items
+  insert into public.sprint_carry_overs (sprint_id, work_item_id, to_sprint_id, outcome, story_points, status)
+  select
+    p_sprint_id,
+    wi.id,
+    case when wi.id = any(v_drop_ids) then null else v_target.id end,
+    case when wi.id = any(v_drop_ids) then 'dropped' else 'carried' end,
+    wi.story_points,
+    wi.status
+  from public.work_items wi
+  where wi.sprint_id = p_sprint_id
+  and wi.status <> 'done';
+
+  update public.work_items wi
+  set sprint_id = v_target.id
+  where wi.sprint_id = p_sprint_id
+  and wi.status <> 'done'
+  and not (wi.id = any(v_drop_ids));
+
+  -- 6. Complete (fires the sprint_end survey assignments)
+  perform set_config('app.sprint_transition', 'completed', true);
+
+  update public.sprints
+  set status = 'completed'
+  where id = p_sprint_id
+  returning * into v_sprint;
+
+  perform set_config('app.sprint_transition', '', true);
+
+  select sc.committed_points into v_committed
+  from public.sprint_commitments sc
+  where sc.sprint_id = p_sprint_id and sc.user_id is null;
+
+  -- 7. Return the sprint with its close-out summary
+  return jsonb_build_object(
+    'sprint', to_jsonb(v_sprint),
+    'carry_over', p_carry_over,
+    'target_sprint_id', v_target.id,
+    'committed_points', v_committed,
+    'delivered_points', (
+      select coalesce(sum(wi.story_points), 0) from public.work_items wi
+      where wi.sprint_id = p_sprint_id and wi.status = 'done'
+    ),
+    'delivered_items', (
+      select count(*) from public.work_items wi
+      where wi.sprint_id = p_sprint_id and wi.status = 'done'
+    ),
+    'carried_points', (
+      select coalesce(sum(co.story_points), 0) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'carried'
+    ),
+    'carried_items', (
+      select count(*) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'carried'
+    ),
+    'dropped_points', (
+      select coalesce(sum(co.story_points), 0) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'dropped'
+    ),
+    'dropped_items', (
+      select count(*) from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id and co.outcome = 'dropped'
+    ),
+    'carry_overs', (
+      select coalesce(jsonb_agg(co order by co.outcome, co.story_points desc, co.work_item_id), '[]'::jsonb)
+      from public.sprint_carry_overs co
+      where co.sprint_id = p_sprint_id
+    )
+  );
+end;
+$$;
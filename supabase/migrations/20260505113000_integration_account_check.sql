@@ -0,0 +1,14 @@
+-- ----------------------------------------------------------------------------
+-- Integrations belong to their team's account
+-- "Manage integrations" only checked the team, so a lead could file an
+-- integration (and the work items its webhooks create as service role) under
+-- another account's account_id. Writes now have to use the team's account.
+-- ----------------------------------------------------------------------------
+drop policy "Manage integrations" on public.team_integrations;
+
+create policy "Manage integrations" on public.team_integrations for all to authenticated
+using ( public.can_manage_team(team_id) )
+with check (
+  public.can_manage_team(team_id)
+  and account_id = (select t.account_id from public.teams t where t.id = team_integrations.team_id)
+);
@@ -0,0 +1,28 @@
+-- ----------------------------------------------------------------------------
+-- Team member updates only change the role
+-- "Update team members" let a lead rewrite any column of a membership row,
+-- so they could move a member into another team (including one of another
+-- account) or hand the row to a different user. Memberships are added and
+-- removed instead; updates may only change the role.
+-- ----------------------------------------------------------------------------
+
+-- ----------------------------------------------------------------------------
+-- Trigger: A membership keeps its team and user
+-- ----------------------------------------------------------------------------
+create or replace function public.prevent_team_member_reassignment()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  if new.team_id is distinct from old.team_id or new.user_id is distinct from old.user_id then
+    raise exception 'Conflict: Team memberships cannot move to another team or user';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger prevent_team_member_reassignment
+  before update of team_id, user_id on public.team_members
+  for each row execute procedure public.prevent_team_member_reassignment();